@@ -4,6 +4,7 @@ import { WhatsappModule } from './whatsapp/whatsapp.module';
 import { EmpresasModule } from './empresas/empresas.module';
 import { ClientesModule } from './clientes/clientes.module';
 import { PedidosModule } from './pedidos/pedidos.module';
+import { CuponesModule } from './cupones/cupones.module';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { BotsModule } from './bots/bots.module';
 import { SessionsModule } from './sessions/sessions.module';
@@ -32,6 +33,7 @@ import { join } from 'path';
     EmpresasModule,
     ClientesModule,
     PedidosModule,
+    CuponesModule,
     BotsModule,
     SessionsModule,
   ],
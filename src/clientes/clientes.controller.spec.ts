@@ -1,12 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClientesController } from './clientes.controller';
+import { ClientesService } from './clientes.service';
 
 describe('ClientesController', () => {
   let controller: ClientesController;
+  const clientesService = {
+    findAllByEmpresa: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ClientesController],
+      providers: [{ provide: ClientesService, useValue: clientesService }],
     }).compile();
 
     controller = module.get<ClientesController>(ClientesController);
@@ -15,4 +20,16 @@ describe('ClientesController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should list clientes of an empresa', async () => {
+    const result = { data: [], total: 0, page: 1, limit: 20, totalPages: 0 };
+    clientesService.findAllByEmpresa.mockResolvedValue(result);
+
+    await expect(
+      controller.findAllByEmpresa('empresa1', { q: 'ana' }),
+    ).resolves.toBe(result);
+    expect(clientesService.findAllByEmpresa).toHaveBeenCalledWith('empresa1', {
+      q: 'ana',
+    });
+  });
 });
@@ -1,4 +1,84 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ClientesService } from './clientes.service';
+import { CreateClienteDto } from './dto/create-cliente.dto';
+import { UpdateClienteDto } from './dto/update-cliente.dto';
+import { UpdateFichaClienteDto } from './dto/update-ficha-cliente.dto';
+import { FindClientesQueryDto } from './dto/find-clientes-query.dto';
 
+// Los clientes son globales; todas las rutas se consultan desde una empresa
 @Controller('clientes')
-export class ClientesController {}
+export class ClientesController {
+  constructor(private readonly clientesService: ClientesService) {}
+
+  @Get('empresa/:empresaId')
+  findAllByEmpresa(
+    @Param('empresaId') empresaId: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: FindClientesQueryDto,
+  ) {
+    return this.clientesService.findAllByEmpresa(empresaId, query);
+  }
+
+  @Post('empresa/:empresaId')
+  create(
+    @Param('empresaId') empresaId: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    createClienteDto: CreateClienteDto,
+  ) {
+    return this.clientesService.createForEmpresa(empresaId, createClienteDto);
+  }
+
+  @Get('empresa/:empresaId/:clienteId')
+  findOne(
+    @Param('empresaId') empresaId: string,
+    @Param('clienteId') clienteId: string,
+  ) {
+    return this.clientesService.findOneByEmpresa(empresaId, clienteId);
+  }
+
+  @Patch('empresa/:empresaId/:clienteId')
+  update(
+    @Param('empresaId') empresaId: string,
+    @Param('clienteId') clienteId: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    updateClienteDto: UpdateClienteDto,
+  ) {
+    return this.clientesService.updateForEmpresa(
+      empresaId,
+      clienteId,
+      updateClienteDto,
+    );
+  }
+
+  @Patch('empresa/:empresaId/:clienteId/ficha')
+  updateFicha(
+    @Param('empresaId') empresaId: string,
+    @Param('clienteId') clienteId: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    updateFichaDto: UpdateFichaClienteDto,
+  ) {
+    return this.clientesService.updateFicha(
+      empresaId,
+      clienteId,
+      updateFichaDto,
+    );
+  }
+
+  @Delete('empresa/:empresaId/:clienteId/ficha')
+  removeFicha(
+    @Param('empresaId') empresaId: string,
+    @Param('clienteId') clienteId: string,
+  ) {
+    return this.clientesService.removeFicha(empresaId, clienteId);
+  }
+}
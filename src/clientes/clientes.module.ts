@@ -3,12 +3,23 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ClientesController } from './clientes.controller';
 import { ClientesService } from './clientes.service';
 import { Cliente, ClienteSchema } from './schemas/cliente.schema';
+import {
+  ClienteEmpresa,
+  ClienteEmpresaSchema,
+} from './schemas/cliente-empresa.schema';
+import { Pedido, PedidoSchema } from '../pedidos/schemas/pedido.schema';
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: Cliente.name, schema: ClienteSchema }])],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Cliente.name, schema: ClienteSchema },
+      { name: ClienteEmpresa.name, schema: ClienteEmpresaSchema },
+      // Solo lectura, para los totales de compra por empresa
+      { name: Pedido.name, schema: PedidoSchema },
+    ]),
+  ],
   controllers: [ClientesController],
   providers: [ClientesService],
   exports: [ClientesService]
 })
 export class ClientesModule {}
-
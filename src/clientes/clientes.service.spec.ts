@@ -1,12 +1,48 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
 import { ClientesService } from './clientes.service';
+import { Cliente } from './schemas/cliente.schema';
+import { ClienteEmpresa } from './schemas/cliente-empresa.schema';
+import { Pedido } from '../pedidos/schemas/pedido.schema';
+
+const execOf = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
 
 describe('ClientesService', () => {
   let service: ClientesService;
+  const empresaId = new Types.ObjectId().toString();
+  const clienteId = new Types.ObjectId().toString();
+  const clienteModel = {
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const clienteEmpresaModel = {
+    collection: { name: 'clienteempresas' },
+    distinct: jest.fn(),
+    exists: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const pedidoModel = {
+    collection: { name: 'pedidos' },
+    distinct: jest.fn(),
+    exists: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ClientesService],
+      providers: [
+        ClientesService,
+        { provide: getModelToken(Cliente.name), useValue: clienteModel },
+        {
+          provide: getModelToken(ClienteEmpresa.name),
+          useValue: clienteEmpresaModel,
+        },
+        { provide: getModelToken(Pedido.name), useValue: pedidoModel },
+      ],
     }).compile();
 
     service = module.get<ClientesService>(ClientesService);
@@ -15,4 +51,90 @@ describe('ClientesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should list only the clientes of the empresa with a paginated result', async () => {
+    pedidoModel.distinct.mockReturnValue(
+      execOf([new Types.ObjectId(clienteId)]),
+    );
+    clienteEmpresaModel.distinct.mockReturnValue(
+      execOf([new Types.ObjectId(clienteId)]),
+    );
+    clienteModel.aggregate.mockReturnValue(
+      execOf([{ data: [{ nombre: 'Ana' }], total: [{ count: 1 }] }]),
+    );
+
+    const result = await service.findAllByEmpresa(empresaId, {
+      q: 'an',
+      page: 1,
+      limit: 20,
+    });
+
+    const pipeline = clienteModel.aggregate.mock.calls[0][0];
+    expect(pipeline[0].$match._id.$in.map(String)).toEqual([clienteId]);
+    expect(
+      pipeline.find((stage: any) => stage.$match?.$or).$match.$or,
+    ).toHaveLength(4);
+    expect(result).toEqual({
+      data: [{ nombre: 'Ana' }],
+      total: 1,
+      page: 1,
+      limit: 20,
+      totalPages: 1,
+    });
+  });
+
+  it('should not expose clientes that never interacted with the empresa', async () => {
+    pedidoModel.exists.mockReturnValue(execOf(null));
+    clienteEmpresaModel.exists.mockReturnValue(execOf(null));
+
+    await expect(
+      service.findOneByEmpresa(empresaId, clienteId),
+    ).rejects.toThrow(NotFoundException);
+    expect(clienteModel.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('should normalize tags when updating the ficha', async () => {
+    pedidoModel.exists.mockReturnValue(execOf({ _id: 'pedido1' }));
+    clienteEmpresaModel.exists.mockReturnValue(execOf(null));
+    clienteEmpresaModel.updateOne.mockReturnValue(execOf({}));
+    clienteModel.aggregate.mockReturnValue(execOf([{ _id: clienteId }]));
+
+    await service.updateFicha(empresaId, clienteId, {
+      etiquetas: [' VIP ', 'vip', 'Mayorista'],
+    });
+
+    expect(clienteEmpresaModel.updateOne).toHaveBeenCalledWith(
+      { empresaId, clienteId },
+      { $set: { etiquetas: ['vip', 'mayorista'] } },
+      { upsert: true },
+    );
+  });
+
+  it('should keep contact edits in the ficha of the empresa instead of the global cliente', async () => {
+    pedidoModel.exists.mockReturnValue(execOf({ _id: 'pedido1' }));
+    clienteEmpresaModel.exists.mockReturnValue(execOf(null));
+    clienteEmpresaModel.updateOne.mockReturnValue(execOf({}));
+    clienteModel.aggregate.mockReturnValue(execOf([{ _id: clienteId }]));
+
+    await service.updateForEmpresa(empresaId, clienteId, {
+      nombre: 'Ana María',
+      email: undefined,
+    });
+
+    expect(clienteModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    expect(clienteEmpresaModel.updateOne).toHaveBeenCalledWith(
+      { empresaId, clienteId },
+      { $set: { nombre: 'Ana María' } },
+      { upsert: true },
+    );
+  });
+
+  it('should reject malformed ids with a 400', async () => {
+    await expect(
+      service.findOneByEmpresa('no-es-un-id', clienteId),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.updateForEmpresa(empresaId, 'no-es-un-id', {}),
+    ).rejects.toThrow(BadRequestException);
+  });
 });
@@ -1,11 +1,30 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { FilterQuery, Model, PipelineStage, Types } from 'mongoose';
 import { Cliente, ClienteDocument } from './schemas/cliente.schema';
+import {
+  ClienteEmpresa,
+  ClienteEmpresaDocument,
+} from './schemas/cliente-empresa.schema';
+import { Pedido, PedidoDocument } from '../pedidos/schemas/pedido.schema';
+import { EstadoPedido } from '../pedidos/enums/estado-pedido.enum';
+import { CreateClienteDto } from './dto/create-cliente.dto';
+import { UpdateClienteDto } from './dto/update-cliente.dto';
+import { UpdateFichaClienteDto } from './dto/update-ficha-cliente.dto';
+import { FindClientesQueryDto } from './dto/find-clientes-query.dto';
 
 @Injectable()
 export class ClientesService {
-  constructor(@InjectModel(Cliente.name) private clienteModel: Model<ClienteDocument>) {}
+  constructor(
+    @InjectModel(Cliente.name) private clienteModel: Model<ClienteDocument>,
+    @InjectModel(ClienteEmpresa.name)
+    private clienteEmpresaModel: Model<ClienteEmpresaDocument>,
+    @InjectModel(Pedido.name) private pedidoModel: Model<PedidoDocument>,
+  ) {}
 
   async findOrCreateByWhatsApp(whatsApp: string): Promise<ClienteDocument> {
     let cliente = await this.clienteModel.findOne({ whatsApp }).exec();
@@ -17,5 +36,307 @@ export class ClientesService {
     }
     return cliente;
   }
-}
 
+  async findAllByEmpresa(empresaId: string, query: FindClientesQueryDto) {
+    const empresaObjectId = this.toObjectId(empresaId, 'empresa');
+    const filter: FilterQuery<ClienteDocument> = {
+      _id: { $in: await this.findClienteIdsByEmpresa(empresaObjectId) },
+    };
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const sortParam = query.sort || '-ultimoPedido';
+    const sortField = sortParam.replace(/^-/, '');
+    const sortOrder = sortParam.startsWith('-') ? -1 : 1;
+
+    const pipeline: PipelineStage[] = [
+      { $match: filter },
+      ...this.buildResumenEmpresaStages(empresaObjectId),
+    ];
+    // Se busca después de aplicar los datos propios de la empresa, que también deben encontrarse
+    if (query.q) {
+      const regex = new RegExp(
+        query.q.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+        'i',
+      );
+      pipeline.push({
+        $match: {
+          $or: [
+            { nombre: regex },
+            { telefono: regex },
+            { whatsApp: regex },
+            { email: regex },
+          ],
+        },
+      });
+    }
+    if (query.etiqueta) {
+      pipeline.push({
+        $match: { etiquetas: query.etiqueta.trim().toLowerCase() },
+      });
+    }
+    pipeline.push(
+      { $sort: { [sortField]: sortOrder, _id: sortOrder } },
+      {
+        $facet: {
+          data: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    );
+
+    const [result] = await this.clienteModel.aggregate(pipeline).exec();
+    const total = result.total[0]?.count || 0;
+
+    return {
+      data: result.data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOneByEmpresa(empresaId: string, clienteId: string) {
+    const empresaObjectId = this.toObjectId(empresaId, 'empresa');
+    await this.assertClienteDeEmpresa(empresaObjectId, clienteId);
+
+    const [cliente] = await this.clienteModel
+      .aggregate([
+        { $match: { _id: this.toObjectId(clienteId, 'cliente') } },
+        ...this.buildResumenEmpresaStages(empresaObjectId),
+      ])
+      .exec();
+    if (!cliente) {
+      throw new NotFoundException(
+        `Cliente con ID "${clienteId}" no encontrado`,
+      );
+    }
+    return cliente;
+  }
+
+  /**
+   * Registra un cliente desde el panel; si el WhatsApp ya existe se vincula el existente.
+   * Los datos de contacto quedan en la ficha de la empresa, no en el `Cliente` global.
+   */
+  async createForEmpresa(
+    empresaId: string,
+    createClienteDto: CreateClienteDto,
+  ) {
+    const { whatsApp, ...datos } = createClienteDto;
+    this.toObjectId(empresaId, 'empresa');
+    const cliente = await this.findOrCreateByWhatsApp(
+      `${whatsApp}@s.whatsapp.net`,
+    );
+
+    await this.clienteEmpresaModel
+      .updateOne(
+        { empresaId, clienteId: cliente._id },
+        { $set: this.definidos(datos), $setOnInsert: { etiquetas: [] } },
+        { upsert: true },
+      )
+      .exec();
+    return this.findOneByEmpresa(empresaId, cliente._id.toString());
+  }
+
+  // Corrige los datos de contacto solo para esta empresa; el resto sigue viendo los del cliente
+  async updateForEmpresa(
+    empresaId: string,
+    clienteId: string,
+    updateClienteDto: UpdateClienteDto,
+  ) {
+    await this.assertClienteDeEmpresa(
+      this.toObjectId(empresaId, 'empresa'),
+      clienteId,
+    );
+    await this.clienteEmpresaModel
+      .updateOne(
+        { empresaId, clienteId },
+        { $set: this.definidos(updateClienteDto) },
+        { upsert: true },
+      )
+      .exec();
+    return this.findOneByEmpresa(empresaId, clienteId);
+  }
+
+  async updateFicha(
+    empresaId: string,
+    clienteId: string,
+    updateFichaDto: UpdateFichaClienteDto,
+  ) {
+    await this.assertClienteDeEmpresa(
+      this.toObjectId(empresaId, 'empresa'),
+      clienteId,
+    );
+
+    const update: Partial<ClienteEmpresa> = {};
+    if (updateFichaDto.notas !== undefined) update.notas = updateFichaDto.notas;
+    if (updateFichaDto.etiquetas) {
+      update.etiquetas = [
+        ...new Set(
+          updateFichaDto.etiquetas
+            .map(e => e.trim().toLowerCase())
+            .filter(Boolean),
+        ),
+      ];
+    }
+    await this.clienteEmpresaModel
+      .updateOne({ empresaId, clienteId }, { $set: update }, { upsert: true })
+      .exec();
+    return this.findOneByEmpresa(empresaId, clienteId);
+  }
+
+  // Borra la ficha de la empresa (notas, etiquetas y datos propios); el cliente y sus pedidos se conservan
+  async removeFicha(empresaId: string, clienteId: string) {
+    this.toObjectId(empresaId, 'empresa');
+    this.toObjectId(clienteId, 'cliente');
+    const result = await this.clienteEmpresaModel
+      .deleteOne({ empresaId, clienteId })
+      .exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(
+        `El cliente "${clienteId}" no tiene ficha en esta empresa`,
+      );
+    }
+    return { deleted: true };
+  }
+
+  // Clientes de una empresa: los que le han comprado y los registrados desde el panel
+  private async findClienteIdsByEmpresa(
+    empresaId: Types.ObjectId,
+  ): Promise<Types.ObjectId[]> {
+    const [conPedidos, conFicha] = await Promise.all([
+      this.pedidoModel.distinct('clienteId', { empresaId }).exec(),
+      this.clienteEmpresaModel.distinct('clienteId', { empresaId }).exec(),
+    ]);
+    const ids = new Set([...conPedidos, ...conFicha].map(id => id.toString()));
+    return [...ids].map(id => new Types.ObjectId(id));
+  }
+
+  private async assertClienteDeEmpresa(
+    empresaId: Types.ObjectId,
+    clienteId: string,
+  ) {
+    this.toObjectId(clienteId, 'cliente');
+    const [pedido, ficha] = await Promise.all([
+      this.pedidoModel.exists({ empresaId, clienteId }).exec(),
+      this.clienteEmpresaModel.exists({ empresaId, clienteId }).exec(),
+    ]);
+    if (!pedido && !ficha) {
+      throw new NotFoundException(
+        `Cliente con ID "${clienteId}" no encontrado en esta empresa`,
+      );
+    }
+  }
+
+  private toObjectId(
+    id: string,
+    entidad: 'empresa' | 'cliente',
+  ): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException(`El ID de ${entidad} "${id}" no es válido`);
+    }
+    return new Types.ObjectId(id);
+  }
+
+  private definidos<T extends object>(datos: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(datos).filter(([, valor]) => valor !== undefined),
+    ) as Partial<T>;
+  }
+
+  // Agrega a cada cliente sus totales de compra y su ficha en la empresa; los datos de
+  // contacto de la ficha reemplazan a los del cliente
+  private buildResumenEmpresaStages(
+    empresaId: Types.ObjectId,
+  ): PipelineStage[] {
+    return [
+      {
+        $lookup: {
+          from: this.pedidoModel.collection.name,
+          let: { clienteId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$clienteId', '$$clienteId'] },
+                    { $eq: ['$empresaId', empresaId] },
+                  ],
+                },
+              },
+            },
+            {
+              $group: {
+                _id: null,
+                totalPedidos: { $sum: 1 },
+                // Los pedidos cancelados o rechazados no suman al gasto
+                totalGastado: {
+                  $sum: {
+                    $cond: [
+                      {
+                        $in: [
+                          '$estadoPedido',
+                          [EstadoPedido.CANCELADO, EstadoPedido.RECHAZADO],
+                        ],
+                      },
+                      0,
+                      '$totalPrecio',
+                    ],
+                  },
+                },
+                ultimoPedido: { $max: '$fecha' },
+              },
+            },
+          ],
+          as: 'resumen',
+        },
+      },
+      {
+        $lookup: {
+          from: this.clienteEmpresaModel.collection.name,
+          let: { clienteId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$clienteId', '$$clienteId'] },
+                    { $eq: ['$empresaId', empresaId] },
+                  ],
+                },
+              },
+            },
+          ],
+          as: 'ficha',
+        },
+      },
+      {
+        $addFields: {
+          totalPedidos: {
+            $ifNull: [{ $arrayElemAt: ['$resumen.totalPedidos', 0] }, 0],
+          },
+          totalGastado: {
+            $ifNull: [{ $arrayElemAt: ['$resumen.totalGastado', 0] }, 0],
+          },
+          ultimoPedido: { $arrayElemAt: ['$resumen.ultimoPedido', 0] },
+          nombre: {
+            $ifNull: [{ $arrayElemAt: ['$ficha.nombre', 0] }, '$nombre'],
+          },
+          telefono: {
+            $ifNull: [{ $arrayElemAt: ['$ficha.telefono', 0] }, '$telefono'],
+          },
+          email: { $ifNull: [{ $arrayElemAt: ['$ficha.email', 0] }, '$email'] },
+          direccion: {
+            $ifNull: [{ $arrayElemAt: ['$ficha.direccion', 0] }, '$direccion'],
+          },
+          notas: { $arrayElemAt: ['$ficha.notas', 0] },
+          etiquetas: {
+            $ifNull: [{ $arrayElemAt: ['$ficha.etiquetas', 0] }, []],
+          },
+        },
+      },
+      { $project: { resumen: 0, ficha: 0 } },
+    ];
+  }
+}
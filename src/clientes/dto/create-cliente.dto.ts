@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsEmail, IsNumberString } from 'class-validator';
+
+export class CreateClienteDto {
+  // Número con indicativo de país y sin '+' (ej: 573001234567)
+  @IsNumberString()
+  whatsApp: string;
+
+  @IsString()
+  @IsOptional()
+  nombre?: string;
+
+  @IsString()
+  @IsOptional()
+  telefono?: string;
+
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  direccion?: string;
+}
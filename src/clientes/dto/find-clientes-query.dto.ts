@@ -0,0 +1,38 @@
+import { IsOptional, IsIn, IsInt, Min, Max, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const CLIENTE_SORT_FIELDS = [
+  'nombre',
+  'totalPedidos',
+  'totalGastado',
+  'ultimoPedido',
+];
+
+export class FindClientesQueryDto {
+  // Busca en nombre, teléfono, WhatsApp y email
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @IsOptional()
+  @IsString()
+  etiqueta?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  // Campo de ordenamiento; un prefijo "-" indica orden descendente (ej: -totalGastado)
+  @IsOptional()
+  @IsIn([...CLIENTE_SORT_FIELDS, ...CLIENTE_SORT_FIELDS.map(f => `-${f}`)])
+  sort?: string = '-ultimoPedido';
+}
@@ -0,0 +1,12 @@
+import { IsString, IsOptional, IsArray } from 'class-validator';
+
+export class UpdateFichaClienteDto {
+  @IsString()
+  @IsOptional()
+  notas?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  etiquetas?: string[];
+}
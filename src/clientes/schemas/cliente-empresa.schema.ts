@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type ClienteEmpresaDocument = ClienteEmpresa & Document;
+
+// Ficha del cliente dentro de una empresa. `Cliente` es global a todas las
+// empresas, así que las notas y etiquetas internas de cada vendedor viven aquí.
+@Schema({ timestamps: true })
+export class ClienteEmpresa {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Cliente', required: true })
+  clienteId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Empresa', required: true })
+  empresaId: MongooseSchema.Types.ObjectId;
+
+  @Prop()
+  notas?: string;
+
+  @Prop({ type: [String], default: [] })
+  etiquetas: string[];
+
+  // Datos de contacto registrados o corregidos por la empresa; en su panel reemplazan a los
+  // del cliente sin cambiar lo que ven otras empresas ni el bot
+  @Prop()
+  nombre?: string;
+
+  @Prop()
+  telefono?: string;
+
+  @Prop()
+  email?: string;
+
+  @Prop()
+  direccion?: string;
+}
+
+export const ClienteEmpresaSchema =
+  SchemaFactory.createForClass(ClienteEmpresa);
+ClienteEmpresaSchema.index({ empresaId: 1, clienteId: 1 }, { unique: true });
+ClienteEmpresaSchema.index({ empresaId: 1, etiquetas: 1 });
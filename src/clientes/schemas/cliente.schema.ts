@@ -1,9 +1,31 @@
-
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
 export type ClienteDocument = Cliente & Document;
 
+@Schema({ _id: false })
+export class DireccionCliente {
+  // Nombre con el que el cliente reconoce la dirección (ej: Casa, Trabajo)
+  @Prop({ required: true })
+  etiqueta: string;
+
+  @Prop({ required: true })
+  direccion: string;
+
+  @Prop()
+  referencias?: string;
+
+  @Prop({
+    type: { type: String, enum: ['Point'], default: 'Point' },
+    coordinates: { type: [Number], default: [0, 0] },
+  })
+  geoUbicacion?: {
+    type: string;
+    coordinates: number[];
+  };
+}
+const DireccionClienteSchema = SchemaFactory.createForClass(DireccionCliente);
+
 @Schema()
 export class Cliente {
   @Prop()
@@ -18,6 +40,7 @@ export class Cliente {
   @Prop()
   email: string;
 
+  // Última dirección usada en un pedido; las guardadas están en `direcciones`
   @Prop()
   direccion: string;
 
@@ -26,6 +49,9 @@ export class Cliente {
     type: string;
     coordinates: number[];
   };
+
+  @Prop({ type: [DireccionClienteSchema], default: [] })
+  direcciones: DireccionCliente[];
 }
 
 export const ClienteSchema = SchemaFactory.createForClass(Cliente);
@@ -0,0 +1,35 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyGuard } from './api-key.guard';
+
+describe('ApiKeyGuard', () => {
+  const contextWith = (apiKey?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+  const guardWith = (configured?: string) =>
+    new ApiKeyGuard({ get: () => configured } as unknown as ConfigService);
+
+  it('should let requests with the configured key through', () => {
+    expect(guardWith('secreto').canActivate(contextWith('secreto'))).toBe(true);
+  });
+
+  it('should reject a wrong or missing key', () => {
+    expect(() => guardWith('secreto').canActivate(contextWith('otro'))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guardWith('secreto').canActivate(contextWith())).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject everyone when no key is configured', () => {
+    expect(() => guardWith(undefined).canActivate(contextWith(''))).toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Exige la clave del panel (variable ADMIN_API_KEY) en la cabecera `x-api-key`.
+ * Si la variable no está configurada no deja pasar a nadie.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const esperada = this.configService.get<string>('ADMIN_API_KEY');
+    const recibida = context
+      .switchToHttp()
+      .getRequest<Request>()
+      .header('x-api-key');
+    if (!esperada || !recibida || !this.coincide(recibida, esperada)) {
+      throw new UnauthorizedException('Clave de acceso inválida.');
+    }
+    return true;
+  }
+
+  // Comparación en tiempo constante para no filtrar la clave por tiempos de respuesta
+  private coincide(recibida: string, esperada: string): boolean {
+    const a = Buffer.from(recibida);
+    const b = Buffer.from(esperada);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
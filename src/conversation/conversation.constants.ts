@@ -11,8 +11,15 @@ export enum ConversationState {
   LOCATION_CONFIRMED = 'location_confirmed',
   AWAITING_PRODUCT_ACTION = 'awaiting_product_action',
   AWAITING_QUANTITY_FOR_PRODUCT = 'awaiting_quantity_for_product',
-  AWAITING_CUSTOMER_DATA = 'awaiting_customer_data',
+  AWAITING_CUSTOMER_DATA = 'awaiting_customer_data', // Legado: sesiones previas al asistente paso a paso
+  COLLECTING_CLIENT_NAME = 'collecting_client_name',
+  COLLECTING_CLIENT_ADDRESS = 'collecting_client_address',
+  COLLECTING_CLIENT_PHONE = 'collecting_client_phone',
+  COLLECTING_ADDRESS_LABEL = 'collecting_address_label',
+  COLLECTING_ADDRESS_REFERENCES = 'collecting_address_references',
   CHATTING = 'chatting',
+  COLLECTING_CLIENT_GEO = 'collecting_client_geo',
+  SELECTING_PAYMENT_METHOD = 'selecting_payment_method',
 }
 
 export const COMMANDS = {
@@ -29,8 +36,33 @@ export const COMMANDS = {
   RETURN_TO_CATEGORIES: { mnemonic: 'rc', name: 'Volver a categorías' },
   FINALIZE_ORDER: { mnemonic: 'fp', name: 'Finalizar pedido' },
   DETAIL: { mnemonic: 'de', name: 'Ver Detalle' },
+  SEARCH: { mnemonic: 'buscar', name: 'Buscar productos (ej: buscar arroz)' },
+  NEXT_PAGE: { mnemonic: 'ver mas', name: 'Ver más productos' },
+  PREVIOUS_PAGE: { mnemonic: 'anterior', name: 'Productos anteriores' },
   ADD_TO_CART: { mnemonic: 'ac', name: 'Agregar al carrito' },
   REPEAT_MENU: { mnemonic: 'rm', name: 'Repetir menú' },
   CHAT: { mnemonic: 'ch', name: 'Chatear con la tienda' },
   STOP_CHATTING: { mnemonic: 'terminar', name: 'Terminar chat' },
+  CANCEL_ORDER: { mnemonic: 'cp', name: 'Cancelar mi último pedido' },
+  EDIT_DATA: { mnemonic: 'ed', name: 'Editar datos de entrega' },
+  REMOVE_FROM_CART: {
+    mnemonic: 'quitar',
+    name: 'Quitar una línea (ej: quitar 2)',
+  },
+  EMPTY_CART: { mnemonic: 'vaciar', name: 'Vaciar carrito' },
+  APPLY_COUPON: {
+    mnemonic: 'cupon',
+    name: 'Aplicar cupón (ej: cupon PROMO10)',
+  },
+  ORDER_HISTORY: { mnemonic: 'hp', name: 'Mis pedidos' },
+  REORDER: { mnemonic: 'rp', name: 'Repetir un pedido (ej: rp 1)' },
+  SKIP: { mnemonic: 'omitir', name: 'Omitir' },
+};
+
+// Otras formas de escribir un comando (con tilde, sinónimos) que se aceptan además del mnemónico
+export const COMMAND_ALIASES: Record<string, keyof typeof COMMANDS> = {
+  'ver más': 'NEXT_PAGE',
+  mas: 'NEXT_PAGE',
+  más: 'NEXT_PAGE',
+  siguiente: 'NEXT_PAGE',
 };
@@ -5,14 +5,16 @@ import { ClientesModule } from '../clientes/clientes.module';
 import { PedidosModule } from '../pedidos/pedidos.module';
 import { WhatsappModule } from '../whatsapp/whatsapp.module';
 import { SessionsModule } from '../sessions/sessions.module';
+import { CuponesModule } from '../cupones/cupones.module';
 
 @Module({
   imports: [
     EmpresasModule, 
     ClientesModule, 
-    PedidosModule,
+    forwardRef(() => PedidosModule),
     forwardRef(() => WhatsappModule),
     SessionsModule,
+    CuponesModule,
   ],
   providers: [ConversationService],
   exports: [ConversationService],
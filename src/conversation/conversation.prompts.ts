@@ -1,17 +1,28 @@
 import { COMMANDS } from './conversation.constants';
-import { Producto } from '../empresas/schemas/producto.schema';
-import { Empresa } from '../empresas/schemas/empresa.schema';
-
-function formatCurrency(amount: number): string {
-  const currencySymbol = '$'; // This could be dynamic in the future
-  return `${currencySymbol}${amount.toFixed(2)}`;
-}
+import {
+  PresentacionProducto,
+  Producto,
+} from '../empresas/schemas/producto.schema';
+import { Empresa, MetodoPago } from '../empresas/schemas/empresa.schema';
+import { StockFaltante } from '../empresas/interfaces/stock-item.interface';
+import { Pedido } from '../pedidos/schemas/pedido.schema';
+import { CotizacionEnvio } from '../empresas/utils/envio.util';
+import { FormatoMoneda, formatMoneda } from '../empresas/utils/moneda.util';
+import { DesgloseImpuesto } from '../empresas/utils/impuesto.util';
+import { DireccionCliente } from '../clientes/schemas/cliente.schema';
+import { Oferta, precioVigente } from '../empresas/utils/oferta.util';
+import { IncumplimientoRegla } from '../empresas/utils/reglas-pedido.util';
+import { estaAbierta, tieneHorario } from '../empresas/utils/horario.util';
+import { ModoCerrado } from '../empresas/enums/modo-cerrado.enum';
 
 export function buildCompanyListPrompt(empresas: (Empresa & { _id: any })[]): string {
   const companyList = empresas
     .map((e, index) => {
       const number = index + 1;
       let companyDetails = `*${number}*. ${e.nombre}`;
+      if (tieneHorario(e)) {
+        companyDetails += estaAbierta(e) ? ' 🟢 Abierto' : ' 🔴 Cerrado';
+      }
       if (e.whatsApp) {
         companyDetails += `\n  Celular: ${e.whatsApp}`;
       }
@@ -30,14 +41,62 @@ export function buildCategoryListPrompt(categories: string[]): string {
   return `Por favor, elige una categoría:\n${categoryList}`;
 }
 
-export function buildProductListPrompt(products: Producto[], instruction: string, useNumberedOptions: boolean = false, noProductsMessage: string = 'Actualmente no tenemos productos en el catálogo.'): string {
+// Precio para listados: si hay una oferta vigente se tacha el precio normal
+export function formatPrecio(
+  precioBase: number,
+  oferta: Oferta,
+  formato: FormatoMoneda,
+): string {
+  const { precio, precioAnterior } = precioVigente(precioBase, oferta);
+  return precioAnterior !== undefined
+    ? `~${formatMoneda(precioAnterior, formato)}~ *${formatMoneda(precio, formato)}* 🔥`
+    : formatMoneda(precio, formato);
+}
+
+// Posición de la página mostrada dentro de un listado paginado
+export interface PaginaListado {
+  actual: number;
+  total: number;
+}
+
+export function buildProductListPrompt(
+  products: Producto[],
+  formato: FormatoMoneda,
+  instruction: string,
+  useNumberedOptions: boolean = false,
+  noProductsMessage: string = 'Actualmente no tenemos productos en el catálogo.',
+  pagina?: PaginaListado,
+): string {
   const productsInStock = products.filter(p => p.existencia > 0);
 
   if (productsInStock.length === 0) {
     return noProductsMessage;
   }
 
-  const productList = productsInStock.map((p, index) => {
+  let prompt = `Nuestro catálogo es:\n${buildProductLines(productsInStock, formato, useNumberedOptions)}\n\n${instruction}`;
+  if (pagina && pagina.total > 1) {
+    prompt += `\n\n_Página ${pagina.actual} de ${pagina.total}_`;
+  }
+  return prompt;
+}
+
+// Resultados de "buscar"; `products` ya viene filtrado por stock y en el orden de la numeración
+export function buildSearchResultsPrompt(
+  query: string,
+  products: Producto[],
+  formato: FormatoMoneda,
+): string {
+  if (products.length === 0) {
+    return `No encontramos productos para "${query}". Intenta con otra palabra o envía *${COMMANDS.REPEAT_MENU.mnemonic}* para ver el menú.`;
+  }
+  return (
+    `🔎 Resultados para "${query}":\n${buildProductLines(products, formato, true)}\n\n` +
+    `Para ver un producto, envía su número (ej: *1*). Para agregarlo directo, el número y la cantidad (ej: *1 2*).`
+  );
+}
+
+function buildProductLines(products: Producto[], formato: FormatoMoneda, useNumberedOptions: boolean): string {
+  return products.map((p, index) => {
     const identifier = useNumberedOptions ? `*${index + 1}*` : `*${p.sku}*`;
     const hasPresentations = p.presentacion && p.presentacion.size > 0;
     let productLine = `${identifier}. ${p.nombreCorto}`;
@@ -47,20 +106,18 @@ export function buildProductListPrompt(products: Producto[], instruction: string
         .filter(([, pres]) => pres.existencia > 0);
       if (availablePresentations.length > 0) {
         const presentationLines = availablePresentations
-          .map(([name, pres]) => `  ${name} - ${formatCurrency(pres.precioventa)}`)
+          .map(([name, pres]) => `  ${name} - ${formatPrecio(pres.precioventa, pres, formato)}`)
           .join('\n');
         productLine += `\n${presentationLines}`;
       } else {
         // If all presentations are out of stock, show the base price if available
-        productLine += ` - ${formatCurrency(p.precioVenta)}`;
+        productLine += ` - ${formatPrecio(p.precioVenta, p, formato)}`;
       }
     } else {
-      productLine += ` - ${formatCurrency(p.precioVenta)}`;
+      productLine += ` - ${formatPrecio(p.precioVenta, p, formato)}`;
     }
     return productLine;
   }).join('\n\n');
-
-  return `Nuestro catálogo es:\n${productList}\n\n${instruction}`;
 }
 
 export function buildProductDetailPrompt(producto: Producto): string {
@@ -71,23 +128,350 @@ export function buildProductDetailPrompt(producto: Producto): string {
   return detail;
 }
 
-export function buildCartPrompt(cart: any[]): string {
+// Descuento de un cupón ya validado sobre el carrito actual
+export interface DescuentoCupon {
+  codigo: string;
+  monto: number;
+}
+
+function buildTotalsLines(
+  subtotal: number,
+  formato: FormatoMoneda,
+  envio?: CotizacionEnvio,
+  impuesto?: DesgloseImpuesto,
+  descuento?: DescuentoCupon,
+): string {
+  const conEnvio = envio && !envio.fueraDeArea;
+  const total =
+    subtotal -
+    (descuento?.monto ?? 0) +
+    (conEnvio ? envio.costo : 0) +
+    (impuesto && !impuesto.incluido ? impuesto.monto : 0);
+  if (!conEnvio && !impuesto && !descuento) {
+    return `*Total: ${formatMoneda(total, formato)}*`;
+  }
+
+  const lines = [`Subtotal: ${formatMoneda(subtotal, formato)}`];
+  if (descuento) {
+    lines.push(
+      `Cupón ${descuento.codigo}: -${formatMoneda(descuento.monto, formato)}`,
+    );
+  }
+  if (impuesto) {
+    lines.push(
+      `${impuesto.nombre} ${impuesto.tasa}%${impuesto.incluido ? ' (incluido)' : ''}: ${formatMoneda(impuesto.monto, formato)}`,
+    );
+  }
+  if (conEnvio) {
+    lines.push(
+      `Envío: ${envio.gratis ? 'Gratis 🎉' : formatMoneda(envio.costo, formato)}`,
+    );
+  }
+  lines.push(`*Total: ${formatMoneda(total, formato)}*`);
+  return lines.join('\n');
+}
+
+export function buildCartPrompt(
+  cart: any[],
+  formato: FormatoMoneda,
+  envio?: CotizacionEnvio,
+  impuesto?: DesgloseImpuesto,
+  descuento?: DescuentoCupon,
+): string {
   if (cart.length === 0) {
     return 'Tu carrito está vacío.';
   }
   let total = 0;
-  const cartItems = cart.map(item => {
+  const cartItems = cart.map((item, index) => {
     const subtotal = item.quantity * item.precioVenta;
     total += subtotal;
     const displayName = item.presentacion ? `${item.nombreCorto} (${item.presentacion})` : item.nombreCorto;
-    return `${item.quantity} x ${displayName} (*${item.sku}*) - ${formatCurrency(subtotal)}`;
+    return `*${index + 1}*. ${item.quantity} x ${displayName} (*${item.sku}*) - ${formatMoneda(subtotal, formato)}`;
   });
 
   return `🛒 *Tu Carrito:*
-${cartItems.join('\n')}\n\n*Total: ${formatCurrency(total)}*`;
+${cartItems.join('\n')}\n\n${buildTotalsLines(total, formato, envio, impuesto, descuento)}\n\n` +
+    `Para editar: *${COMMANDS.REMOVE_FROM_CART.mnemonic} 2* quita la línea 2, *2 = 5* cambia su cantidad a 5 y *${COMMANDS.EMPTY_CART.mnemonic}* vacía el carrito.\n` +
+    (descuento
+      ? `Para quitar el cupón envía *${COMMANDS.APPLY_COUPON.mnemonic} ${COMMANDS.REMOVE_FROM_CART.mnemonic}*.`
+      : `¿Tienes un cupón? Envía *${COMMANDS.APPLY_COUPON.mnemonic} CODIGO*.`);
+}
+
+export function buildOrderSummaryPrompt(
+  cart: any[],
+  customer: {
+    nombre?: string;
+    direccion?: string;
+    telefono?: string;
+    ubicacion?: boolean;
+    pago?: string;
+    entrega?: string;
+  },
+  formato: FormatoMoneda,
+  envio?: CotizacionEnvio,
+  impuesto?: DesgloseImpuesto,
+  descuento?: DescuentoCupon,
+): string {
+  let total = 0;
+  const cartItems = cart.map(item => {
+    const subtotal = item.quantity * item.precioVenta;
+    total += subtotal;
+    const displayName = item.presentacion
+      ? `${item.nombreCorto} (${item.presentacion})`
+      : item.nombreCorto;
+    return `${item.quantity} x ${displayName} - ${formatMoneda(subtotal, formato)}`;
+  });
+
+  return (
+    `📝 *Resumen de tu pedido*\n\n` +
+    `${cartItems.join('\n')}\n\n` +
+    `${buildTotalsLines(total, formato, envio, impuesto, descuento)}\n\n` +
+    `*Datos de entrega:*\n` +
+    `*Nombre:* ${customer.nombre || 'No registrado'}\n` +
+    `*Dirección:* ${customer.direccion || 'No registrada'}\n` +
+    `*Teléfono:* ${customer.telefono || 'No registrado'}\n` +
+    `*Ubicación:* ${customer.ubicacion ? '📍 Compartida' : 'No compartida'}\n` +
+    (customer.pago ? `*Forma de pago:* ${customer.pago}\n` : '') +
+    (customer.entrega ? `*Fecha de entrega:* ${customer.entrega}\n` : '') +
+    `\n` +
+    `¿Confirmas tu pedido?`
+  );
+}
+
+export type CustomerField = 'nombre' | 'direccion' | 'telefono';
+
+const CUSTOMER_FIELD_LABELS: Record<
+  CustomerField,
+  { pregunta: string; guardado: string }
+> = {
+  nombre: {
+    pregunta: '¿A nombre de quién va el pedido? Escribe tu nombre completo.',
+    guardado: 'Usar nombre guardado',
+  },
+  direccion: {
+    pregunta:
+      '¿A qué dirección llevamos tu pedido? Incluye barrio o referencias si es posible.',
+    guardado: 'Usar dirección guardada',
+  },
+  telefono: {
+    pregunta:
+      '¿A qué teléfono podemos llamarte si hay algún problema con la entrega?',
+    guardado: 'Usar teléfono',
+  },
+};
+
+export function buildCustomerFieldPrompt(
+  field: CustomerField,
+  savedValue?: string,
+): string {
+  const labels = CUSTOMER_FIELD_LABELS[field];
+  if (!savedValue) {
+    return labels.pregunta;
+  }
+  return (
+    `${labels.guardado}: *${savedValue}*\n\n` +
+    `Responde *${COMMANDS.YES.mnemonic}* para usarlo, *${COMMANDS.NO.mnemonic}* para cambiarlo, o escribe directamente el nuevo valor.`
+  );
+}
+
+export function buildAddressChoicePrompt(
+  direcciones: DireccionCliente[],
+): string {
+  const lines = direcciones.map(
+    (d, i) => `${i + 1}. *${d.etiqueta}:* ${d.direccion}`,
+  );
+  return (
+    `¿A qué dirección llevamos tu pedido?\n\n` +
+    `${lines.join('\n')}\n\n` +
+    `Responde con el número de la dirección o escribe una nueva.`
+  );
+}
+
+export function buildAddressLabelPrompt(defaultLabel: string): string {
+  return (
+    `¿Cómo quieres identificar esta dirección? (ej: Casa, Trabajo)\n\n` +
+    `Envía *${COMMANDS.SKIP.mnemonic}* para guardarla como "${defaultLabel}".`
+  );
+}
+
+export function buildAddressReferencesPrompt(): string {
+  return (
+    `¿Alguna referencia para encontrarte? (ej: torre 2 apto 301, portón verde)\n\n` +
+    `Envía *${COMMANDS.SKIP.mnemonic}* si no hace falta.`
+  );
+}
+
+export function buildInvalidPhonePrompt(digits: number): string {
+  return `❌ Ese número no parece válido. Escribe un teléfono de ${digits} dígitos (puedes incluir el indicativo del país).`;
+}
+
+export function buildPaymentMethodPrompt(metodos: MetodoPago[]): string {
+  const lines = metodos.map((m, i) => `${i + 1}. ${m.nombre}`);
+  return `💳 ¿Cómo vas a pagar?\n\n${lines.join('\n')}\n\nResponde con el número de la opción.`;
+}
+
+export function buildPaymentInstructionsPrompt(
+  metodo: MetodoPago,
+  total: number,
+  formato: FormatoMoneda,
+): string {
+  return (
+    `💳 *Pago por ${metodo.nombre}*\n\n` +
+    `Transfiere *${formatMoneda(total, formato)}* a:\n${metodo.detalles || 'Los datos te los enviará la tienda.'}\n\n` +
+    `Cuando pagues, envía aquí la *foto del comprobante* y se la haremos llegar a la tienda.`
+  );
+}
+
+export function buildLocationRequestPrompt(): string {
+  return (
+    `📍 Para calcular el envío y llevar tu pedido, comparte tu ubicación: toca 📎 (adjuntar) > *Ubicación* > *Enviar mi ubicación actual*.\n\n` +
+    `Si prefieres no compartirla, envía *${COMMANDS.SKIP.mnemonic}*.`
+  );
+}
+
+export function buildOutOfAreaPrompt(
+  distanciaKm: number,
+  areaInfluencia?: number,
+): string {
+  const limite =
+    areaInfluencia > 0
+      ? ` Solo entregamos hasta ${areaInfluencia} km y tu dirección está a ${distanciaKm.toFixed(1)} km.`
+      : '';
+  return (
+    `😔 Lo sentimos, tu dirección está fuera de nuestra zona de entrega.${limite}\n\n` +
+    `Puedes actualizar tus datos de entrega con *${COMMANDS.EDIT_DATA.mnemonic}* o chatear con la tienda con *${COMMANDS.CHAT.mnemonic}*.`
+  );
+}
+
+export function buildOrderRulesPrompt(
+  incumplimientos: IncumplimientoRegla[],
+  formato: FormatoMoneda,
+): string {
+  const lines = incumplimientos.map(i =>
+    i.tipo === 'monto_minimo'
+      ? `• El pedido mínimo es de ${formatMoneda(i.minimo, formato)}. Te faltan ${formatMoneda(i.faltante, formato)}.`
+      : `• Puedes pedir hasta ${i.maximo} unidades de *${i.nombre}* y tienes ${i.cantidad}.`,
+  );
+  return (
+    `⚠️ Tu pedido todavía no cumple las condiciones de la tienda:\n${lines.join('\n')}\n\n` +
+    `Ajusta tu carrito (ej: *2 = 5* cambia la cantidad de la línea 2) o sigue agregando productos y vuelve a enviar *${COMMANDS.FINALIZE_ORDER.mnemonic}*.`
+  );
+}
+
+export function buildStoreClosedPrompt(
+  modo: ModoCerrado,
+  mensajeCerrado?: string,
+  apertura?: string,
+): string {
+  let prompt = mensajeCerrado || '🌙 En este momento estamos cerrados.';
+  if (apertura) {
+    prompt += `\nAbrimos el *${apertura}*.`;
+  }
+  return (
+    prompt +
+    (modo === ModoCerrado.BLOQUEAR
+      ? '\n\nPuedes ver el catálogo, pero solo recibimos pedidos en nuestro horario de atención.'
+      : '\n\nPuedes hacer tu pedido ahora y lo atenderemos apenas abramos.')
+  );
+}
+
+export function buildScheduledOrderPrompt(apertura: string): string {
+  return `🕒 Como la tienda está cerrada, tu pedido quedó programado y lo empezaremos a preparar el *${apertura}*.`;
+}
+
+export function buildDeliveryDayPrompt(
+  diasEntrega: string[],
+  fechaEntrega: string,
+): string {
+  return `📅 Entregamos los días ${diasEntrega.join(', ')}. Tu pedido se entregaría el *${fechaEntrega}*.`;
+}
+
+// Diferencia detectada al revalidar una línea del carrito contra el catálogo
+export interface CartChange {
+  nombre: string;
+  tipo: 'no_disponible' | 'agotado' | 'stock' | 'precio';
+  cantidad?: number;
+  precioAnterior?: number;
+  precioNuevo?: number;
+}
+
+export function buildCartChangesPrompt(
+  changes: CartChange[],
+  formato: FormatoMoneda,
+): string {
+  const lines = changes
+    .map(c => {
+      switch (c.tipo) {
+        case 'no_disponible':
+          return `- ${c.nombre} ya no está disponible y fue retirado.`;
+        case 'agotado':
+          return `- ${c.nombre} se agotó y fue retirado.`;
+        case 'stock':
+          return `- ${c.nombre}: solo quedan ${c.cantidad}, ajustamos la cantidad.`;
+        case 'precio':
+          return `- ${c.nombre} cambió de precio: ${formatMoneda(c.precioAnterior, formato)} → ${formatMoneda(c.precioNuevo, formato)}.`;
+      }
+    })
+    .join('\n');
+
+  return `⚠️ Actualizamos tu carrito con los datos más recientes del catálogo:\n${lines}`;
+}
+
+export function buildStockShortagePrompt(faltantes: StockFaltante[]): string {
+  const lines = faltantes
+    .map(f => {
+      const displayName = f.presentacion
+        ? `${f.nombre || f.sku} (${f.presentacion})`
+        : f.nombre || f.sku;
+      return f.disponible > 0
+        ? `- ${displayName}: pediste ${f.cantidad}, solo quedan ${f.disponible}.`
+        : `- ${displayName}: agotado.`;
+    })
+    .join('\n');
+
+  return (
+    `⚠️ Algunos productos se agotaron mientras confirmabas tu pedido:\n${lines}\n\n` +
+    `Ajustamos tu carrito con las cantidades disponibles. Revísalo y envía *${COMMANDS.FINALIZE_ORDER.mnemonic}* para confirmar de nuevo.`
+  );
+}
+
+export function buildCancelOrderHintPrompt(minutes: number): string {
+  return `Si necesitas cancelar este pedido, envía *${COMMANDS.CANCEL_ORDER.mnemonic}* en los próximos ${minutes} minutos.`;
+}
+
+export function buildOrderHistoryPrompt(
+  pedidos: Pedido[],
+  formato: FormatoMoneda,
+): string {
+  if (pedidos.length === 0) {
+    return 'Aún no tienes pedidos en esta tienda.';
+  }
+
+  const orderList = pedidos
+    .map((p, index) => {
+      const fecha = new Date(p.fecha).toLocaleDateString(formato.locale);
+      const items = p.items
+        .map(
+          item =>
+            `${item.cantidad} x ${item.nombre || item.sku}${item.presentacion ? ` (${item.presentacion})` : ''}`,
+        )
+        .join(', ');
+      return `*${index + 1}*. ${p.codigo || 'Sin código'} - ${fecha} - ${p.estadoPedido} - ${formatMoneda(p.totalPrecio, formato)}\n  ${items}`;
+    })
+    .join('\n\n');
+
+  return (
+    `📋 *Tus pedidos recientes:*\n\n${orderList}\n\n` +
+    `Para pedir lo mismo otra vez, envía *${COMMANDS.REORDER.mnemonic}* y el número (ej: *${COMMANDS.REORDER.mnemonic} 1*).`
+  );
+}
+
+export interface OptionItem {
+  command: keyof typeof COMMANDS;
+  customDescription?: string;
 }
 
-export function buildOptionsPrompt(options: { command: keyof typeof COMMANDS, customDescription?: string }[]): string {
+export function buildOptionsPrompt(options: OptionItem[]): string {
   const optionsList = options.map(opt => {
     const command = COMMANDS[opt.command];
     return `*${command.mnemonic}*. ${opt.customDescription || command.name}`;
@@ -102,12 +486,12 @@ export function buildGeneralOptionsPrompt(): string {
   ]);
 }
 
-export function buildPresentationChoicePrompt(productName: string, presentations: [string, any][]): string {
+export function buildPresentationChoicePrompt(productName: string, presentations: [string, PresentacionProducto][], formato: FormatoMoneda): string {
   const presentationList = presentations.map(([name, p], index) => {
     const optionNumber = index + 1;
     return p.existencia > 0
-      ? `*${optionNumber}*. ${name} - ${formatCurrency(p.precioventa)}`
-      : `~*${optionNumber}*. ${name} - ${formatCurrency(p.precioventa)}~ (Agotado)`;
+      ? `*${optionNumber}*. ${name} - ${formatPrecio(p.precioventa, p, formato)}`
+      : `~*${optionNumber}*. ${name} - ${formatMoneda(p.precioventa, formato)}~ (Agotado)`;
   }).join('\n');
 
   return `El producto *${productName}* tiene varias presentaciones. Por favor, elige una y la cantidad (ej: *1 2* o *Grande 2*):\n${presentationList}`;
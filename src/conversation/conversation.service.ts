@@ -1,16 +1,45 @@
-import { Inject, Injectable, Logger, OnModuleInit, forwardRef } from '@nestjs/common';
+import { HttpException, Inject, Injectable, Logger, OnModuleInit, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ClientesService } from '../clientes/clientes.service';
+import { CuponesService } from '../cupones/cupones.service';
 import { EmpresasService } from '../empresas/empresas.service';
+import { PAIS_CONFIG } from '../empresas/constants/pais-config.constants';
+import { TipoMetodoPago } from '../empresas/enums/tipo-metodo-pago.enum';
+import { StockInsuficienteException } from '../empresas/exceptions/stock-insuficiente.exception';
+import { StockFaltante } from '../empresas/interfaces/stock-item.interface';
+import { CotizacionEnvio, calcularEnvio, tieneUbicacion } from '../empresas/utils/envio.util';
+import { FormatoMoneda, formatMoneda, getFormatoMoneda, redondearMoneda } from '../empresas/utils/moneda.util';
+import { DesgloseImpuesto, calcularImpuesto } from '../empresas/utils/impuesto.util';
+import { normalizarTelefono } from '../empresas/utils/telefono.util';
+import { precioVigente } from '../empresas/utils/oferta.util';
+import { proximaFechaEntrega, validarReglasPedido } from '../empresas/utils/reglas-pedido.util';
+import { formatFecha, formatFechaHora, getZonaHoraria, nombreDiaSemana } from '../empresas/utils/fecha.util';
+import { estaAbierta, proximaApertura } from '../empresas/utils/horario.util';
+import { ModoCerrado } from '../empresas/enums/modo-cerrado.enum';
+import { ClienteDocument } from '../clientes/schemas/cliente.schema';
+import { EmpresaDocument } from '../empresas/schemas/empresa.schema';
 import { CreatePedidoDto } from '../pedidos/dto/create-pedido.dto';
 import { PedidosService } from '../pedidos/pedidos.service';
+import { PedidoDocument } from '../pedidos/schemas/pedido.schema';
 import { UserSessionDocument } from '../sessions/schemas/session.schema';
 import { SessionsService } from '../sessions/sessions.service';
 import { WhatsappService } from '../whatsapp/whatsapp.service';
-import { COMMANDS, ConversationState } from './conversation.constants';
+import { GenericImage, GenericLocation } from '../whatsapp/providers/whatsapp-provider.interface';
+import { COMMAND_ALIASES, COMMANDS, ConversationState } from './conversation.constants';
 import * as prompts from './conversation.prompts';
+import { dividirMensaje } from './utils/mensaje.util';
 import { WAMessage } from '@whiskeysockets/baileys';
 
+// Pasos del asistente de datos de entrega, en orden
+const CUSTOMER_DATA_FIELDS: Partial<Record<string, prompts.CustomerField>> = {
+  [ConversationState.COLLECTING_CLIENT_NAME]: 'nombre',
+  [ConversationState.COLLECTING_CLIENT_ADDRESS]: 'direccion',
+  [ConversationState.COLLECTING_CLIENT_PHONE]: 'telefono',
+};
+
+const SEARCH_RESULTS_LIMIT = 10;
+const DEFAULT_PRODUCTS_PER_PAGE = 10;
+
 @Injectable()
 export class ConversationService implements OnModuleInit {
   private readonly logger = new Logger(ConversationService.name);
@@ -24,6 +53,7 @@ export class ConversationService implements OnModuleInit {
     private readonly empresasService: EmpresasService,
     private readonly clientesService: ClientesService,
     private readonly pedidosService: PedidosService,
+    private readonly cuponesService: CuponesService,
     private readonly configService: ConfigService,
   ) {
     this.commandMap = new Map();
@@ -31,13 +61,16 @@ export class ConversationService implements OnModuleInit {
       const commandKey = key as keyof typeof COMMANDS;
       this.commandMap.set(COMMANDS[commandKey].mnemonic, commandKey);
     }
+    for (const [alias, commandKey] of Object.entries(COMMAND_ALIASES)) {
+      this.commandMap.set(alias, commandKey);
+    }
   }
 
   onModuleInit() {
     this.logger.log('ConversationService initialized.');
   }
 
-  public async handleIncomingMessage(message: { from: string; sessionId: string; text: string; originalMessage: any; }) {
+  public async handleIncomingMessage(message: { from: string; sessionId: string; text: string; location?: GenericLocation; image?: GenericImage; originalMessage: any; }) {
     try {
       this.logger.debug(`Processing message from ${message.from} via session ${message.sessionId}: "${message.text}"`);
       const userJid = message.from;
@@ -61,6 +94,22 @@ export class ConversationService implements OnModuleInit {
 
       const session = await this.sessionsService.findOrCreate(userJid, message.sessionId);
 
+      if (message.location) {
+        await this.handleLocationMessage(userJid, session, message.location);
+        await session.save();
+        return;
+      }
+
+      // Una imagen solo se toma como comprobante si el cliente tiene un pedido de la empresa esperándolo
+      if (message.image && session.state !== ConversationState.CHATTING) {
+        const pedido = await this.findPedidoEsperandoComprobante(userJid, session);
+        if (pedido) {
+          await this.handlePaymentProof(userJid, session, pedido, message.image, message.originalMessage);
+          await session.save();
+          return;
+        }
+      }
+
       // Resolve numbered options first
       if (session.numberedOptions && session.numberedOptions[messageText]) {
         messageText = session.numberedOptions[messageText];
@@ -85,9 +134,25 @@ export class ConversationService implements OnModuleInit {
           await session.save();
           return;
         }
+        if (command === 'CANCEL_ORDER') {
+          await this.handleCancelOrder(userJid, session);
+          await session.save();
+          return;
+        }
+        if (command === 'ORDER_HISTORY') {
+          await this.handleOrderHistory(userJid, session);
+          await session.save();
+          return;
+        }
+      }
+
+      if (messageText.split(/\s+/)[0] === COMMANDS.REORDER.mnemonic) {
+        await this.handleReorder(userJid, session, messageText);
+        await session.save();
+        return;
       }
 
-      await this.processState(session, userJid, messageText, command);
+      await this.processState(session, userJid, messageText, command, message.text.trim());
       await session.save();
     } catch (error) {
       this.logger.error(`Error processing message from ${message.from}: ${error.stack}`);
@@ -95,7 +160,7 @@ export class ConversationService implements OnModuleInit {
     }
   }
 
-  private async processState(session: UserSessionDocument, userJid: string, messageText: string, command: keyof typeof COMMANDS | undefined) {
+  private async processState(session: UserSessionDocument, userJid: string, messageText: string, command: keyof typeof COMMANDS | undefined, originalText: string) {
     switch (session.state) {
       case ConversationState.SELECTING_COMPANY:
         await this.handleCompanySelection(userJid, session, messageText);
@@ -113,7 +178,25 @@ export class ConversationService implements OnModuleInit {
         await this.handleAwaitingQuantityForProduct(userJid, session, messageText);
         break;
       case ConversationState.AWAITING_CUSTOMER_DATA:
-        await this.handleAwaitingCustomerData(userJid, session, messageText);
+        await this.handleCreateOrder(userJid, session);
+        break;
+      case ConversationState.COLLECTING_CLIENT_NAME:
+      case ConversationState.COLLECTING_CLIENT_ADDRESS:
+      case ConversationState.COLLECTING_CLIENT_PHONE:
+        await this.handleCustomerDataStep(userJid, session, originalText, command);
+        break;
+      case ConversationState.COLLECTING_ADDRESS_LABEL:
+      case ConversationState.COLLECTING_ADDRESS_REFERENCES:
+        await this.handleNewAddressDetails(userJid, session, originalText, command);
+        break;
+      case ConversationState.CONFIRMING_ORDER:
+        await this.handleOrderConfirmation(userJid, session, command);
+        break;
+      case ConversationState.COLLECTING_CLIENT_GEO:
+        await this.handleCollectingClientGeo(userJid, session, command);
+        break;
+      case ConversationState.SELECTING_PAYMENT_METHOD:
+        await this.handlePaymentMethodSelection(userJid, session, messageText);
         break;
       case ConversationState.CHATTING:
         await this.handleChatting(userJid, session, messageText, command);
@@ -134,8 +217,11 @@ export class ConversationService implements OnModuleInit {
     }
 
     if (empresa) {
-      session.company = { code: empresa.code, id: empresa._id.toString(), name: empresa.nombre };
+      session.company = { code: empresa.code, id: empresa._id.toString(), name: empresa.nombre, formato: getFormatoMoneda(empresa) };
       await this.sendMessage(userJid, session.sessionId, empresa.saludoBienvenida || `¡Bienvenido a ${empresa.nombre}!`);
+      if (!estaAbierta(empresa)) {
+        await this.sendMessage(userJid, session.sessionId, this.buildStoreClosedMessage(empresa));
+      }
       
       const categories = await this.empresasService.findProductCategories(session.company.id);
       if (categories && categories.length > 0) {
@@ -178,6 +264,8 @@ export class ConversationService implements OnModuleInit {
     await this.sendMessage(userJid, session.sessionId, prompt);
     const optionsPrompt = prompts.buildOptionsPrompt([
       { command: 'CHAT' },
+      { command: 'SEARCH' },
+      { command: 'ORDER_HISTORY' },
       { command: 'RETURN_TO_COMPANIES' },
       { command: 'REPEAT_MENU' },
       { command: 'CANCEL' },
@@ -186,6 +274,9 @@ export class ConversationService implements OnModuleInit {
   }
   
   private async handleCategorySelection(userJid: string, session: UserSessionDocument, messageText: string, command: keyof typeof COMMANDS | undefined) {
+    if (await this.handleSearch(userJid, session, messageText)) {
+      return;
+    }
     if (command === 'CHAT') {
       await this.startChatting(userJid, session);
       return;
@@ -202,23 +293,8 @@ export class ConversationService implements OnModuleInit {
     const chosenCategory = session.availableCategories?.find(c => c.toLowerCase() === messageText);
 
     if (chosenCategory) {
-        session.state = ConversationState.BROWSING_PRODUCTS;
-        session.numberedOptions = {};
-        const productos = await this.empresasService.findProductsByCategory(session.company!.id, chosenCategory);
-        const instruction = `Para ordenar, envía: *SKU [presentación] Cantidad* (ej: *PROD01 [50g] 2*)`;
-        const prompt = prompts.buildProductListPrompt(productos, instruction, false, 'No hay productos en esta categoría.');
-        await this.sendMessage(userJid, session.sessionId, prompt);
-        
-        const optionsPrompt = prompts.buildOptionsPrompt([
-            { command: 'CHAT' },
-            { command: 'DETAIL', customDescription: 'Ver Detalle (ej: de SKU)' },
-            { command: 'RETURN_TO_CATEGORIES' },
-            { command: 'VIEW_CART' },
-            { command: 'FINALIZE_ORDER' },
-            { command: 'REPEAT_MENU' },
-            { command: 'CANCEL' },
-        ]);
-        await this.sendMessage(userJid, session.sessionId, optionsPrompt);
+        session.listado = { categoria: chosenCategory, pagina: 1 };
+        await this.showProductPage(userJid, session);
     } else {
         await this.sendMessage(userJid, session.sessionId, 'Categoría no válida. Por favor, elige una de la lista.');
         await this.showCategories(userJid, session);
@@ -226,27 +302,80 @@ export class ConversationService implements OnModuleInit {
   }
 
   private async showAllProducts(userJid: string, session: UserSessionDocument) {
+    session.listado = { pagina: 1 };
+    await this.showProductPage(userJid, session);
+  }
+
+  /**
+   * Muestra la página actual de `session.listado` (una categoría o todo el catálogo),
+   * con tantos productos como indique `productosPorPagina` de la empresa.
+   */
+  private async showProductPage(userJid: string, session: UserSessionDocument) {
     session.state = ConversationState.BROWSING_PRODUCTS;
-    const productos = await this.empresasService.findAllProducts(session.company!.id);
-    const instruction = `Para ordenar, envía: *SKU Cantidad* (ej: *PROD01 2*)`;
-    const prompt = prompts.buildProductListPrompt(productos, instruction);
+    session.numberedOptions = {};
+    const listado = session.listado ?? { pagina: 1 };
+    const { categoria } = listado;
+
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    const porPagina = empresa.productosPorPagina || DEFAULT_PRODUCTS_PER_PAGE;
+    const { productos: productosPagina, pagina, totalPaginas } = await this.empresasService.findProductPage(
+        session.company!.id,
+        listado.pagina,
+        porPagina,
+        categoria,
+    );
+    session.listado = { ...listado, pagina };
+    this.setNumberedProducts(session, productosPagina.map(p => p.sku));
+
+    const instruction = categoria
+        ? `Para ordenar, envía: *número [presentación] cantidad* (ej: *1 [50g] 2*). También puedes usar el SKU.\nPara ver el detalle: *${COMMANDS.DETAIL.mnemonic} 1*`
+        : `Para ordenar, envía: *número cantidad* (ej: *1 2*). También puedes usar el SKU.\nPara ver el detalle: *${COMMANDS.DETAIL.mnemonic} 1*`;
+    const prompt = prompts.buildProductListPrompt(
+        productosPagina,
+        await this.getFormatoMoneda(session),
+        instruction,
+        true,
+        categoria ? 'No hay productos en esta categoría.' : undefined,
+        { actual: pagina, total: totalPaginas },
+    );
     await this.sendMessage(userJid, session.sessionId, prompt);
 
-    const optionsPrompt = prompts.buildOptionsPrompt([
+    const options: prompts.OptionItem[] = [];
+    if (pagina < totalPaginas) options.push({ command: 'NEXT_PAGE' });
+    if (pagina > 1) options.push({ command: 'PREVIOUS_PAGE' });
+    options.push(
         { command: 'CHAT' },
-        { command: 'DETAIL', customDescription: 'Ver Detalle (ej: de SKU)' },
+        { command: 'DETAIL', customDescription: 'Ver Detalle (ej: de 1)' },
+        { command: 'SEARCH' },
+        categoria ? { command: 'RETURN_TO_CATEGORIES' } : { command: 'ORDER_HISTORY' },
         { command: 'VIEW_CART' },
         { command: 'FINALIZE_ORDER' },
         { command: 'REPEAT_MENU' },
         { command: 'CANCEL' },
-    ]);
-    await this.sendMessage(userJid, session.sessionId, optionsPrompt);
+    );
+    await this.sendMessage(userJid, session.sessionId, prompts.buildOptionsPrompt(options));
+  }
+
+  private async changeProductPage(userJid: string, session: UserSessionDocument, delta: number) {
+    if (!session.listado) {
+        await this.showAllProducts(userJid, session);
+        return;
+    }
+    session.listado = { ...session.listado, pagina: session.listado.pagina + delta };
+    await this.showProductPage(userJid, session);
   }
 
   private async handleProductBrowsing(userJid: string, session: UserSessionDocument, messageText: string, command: keyof typeof COMMANDS | undefined) {
     const parts = messageText.split(/\s+/);
     const firstPart = parts[0];
 
+    if (await this.handleCartEdit(userJid, session, messageText, command)) {
+        return;
+    }
+    if (await this.handleSearch(userJid, session, messageText)) {
+        return;
+    }
+
     if (command) {
         switch (command) {
             case 'CHAT':
@@ -262,8 +391,14 @@ export class ConversationService implements OnModuleInit {
             case 'RETURN_TO_CATEGORIES':
                 await this.showCategories(userJid, session);
                 return;
+            case 'NEXT_PAGE':
+                await this.changeProductPage(userJid, session, 1);
+                return;
+            case 'PREVIOUS_PAGE':
+                await this.changeProductPage(userJid, session, -1);
+                return;
             case 'DETAIL':
-                await this.sendMessage(userJid, session.sessionId, 'Por favor, indica el SKU del producto que quieres ver (ej: de 001).');
+                await this.sendMessage(userJid, session.sessionId, 'Por favor, indica el número o SKU del producto que quieres ver (ej: de 1).');
                 return;
         }
     }
@@ -274,10 +409,55 @@ export class ConversationService implements OnModuleInit {
         return;
     }
 
+    // Un número de la lista mostrada ya llega traducido a su SKU
+    if (parts.length === 1 && Object.values(session.numberedOptions || {}).includes(firstPart)) {
+        await this.handleProductDetail(userJid, session, firstPart);
+        return;
+    }
+
     // Default to ordering
     await this.handleOrdering(userJid, session, messageText);
   }
 
+  /**
+   * Atiende "buscar <texto>": lista numerada de coincidencias del catálogo.
+   * Devuelve true si el mensaje era una búsqueda.
+   */
+  private async handleSearch(userJid: string, session: UserSessionDocument, messageText: string): Promise<boolean> {
+    const [first, ...rest] = messageText.split(/\s+/);
+    if (first !== COMMANDS.SEARCH.mnemonic) {
+        return false;
+    }
+    const query = rest.join(' ');
+    if (!query) {
+        await this.sendMessage(userJid, session.sessionId, `Escribe qué buscas después de *${COMMANDS.SEARCH.mnemonic}* (ej: *${COMMANDS.SEARCH.mnemonic} arroz*).`);
+        return true;
+    }
+
+    const resultados = await this.empresasService.searchProducts(session.company!.id, query, {
+        soloDisponibles: true,
+        limit: SEARCH_RESULTS_LIMIT,
+    });
+    session.state = ConversationState.BROWSING_PRODUCTS;
+    session.pendingProduct = undefined;
+    this.setNumberedProducts(session, resultados.map(p => p.sku));
+    await this.sendMessage(userJid, session.sessionId, prompts.buildSearchResultsPrompt(query, resultados, await this.getFormatoMoneda(session)));
+    return true;
+  }
+
+  // Numera los productos de la lista mostrada; se recuerdan para restaurar la numeración tras ver un detalle
+  private setNumberedProducts(session: UserSessionDocument, skus: string[]) {
+    session.numberedProducts = skus;
+    this.restoreNumberedProducts(session);
+  }
+
+  private restoreNumberedProducts(session: UserSessionDocument) {
+    session.numberedOptions = {};
+    (session.numberedProducts || []).forEach((sku, index) => {
+        session.numberedOptions[index + 1] = sku;
+    });
+  }
+
   private async handleProductDetail(userJid: string, session: UserSessionDocument, itemIdentifier: string) {
     const sku = session.numberedOptions[itemIdentifier] || itemIdentifier.toUpperCase();
     const producto = await this.empresasService.findProductBySku(session.company!.id, sku);
@@ -286,7 +466,7 @@ export class ConversationService implements OnModuleInit {
         session.pendingProduct = {
             sku: producto.sku,
             nombreCorto: producto.nombreCorto,
-            precioVenta: producto.precioVenta,
+            precioVenta: precioVigente(producto.precioVenta, producto).precio,
             existencia: producto.existencia,
             presentacion: producto.presentacion,
         };
@@ -300,10 +480,11 @@ export class ConversationService implements OnModuleInit {
         let orderInstruction = 'Para agregar al carrito, envía la cantidad (ej: *2*).';
         if (hasPresentations) {
             const presentations = Array.from(producto.presentacion.entries());
+            const formato = await this.getFormatoMoneda(session);
             const presentationList = presentations.map(([name, p], index) => {
                 const optionNumber = index + 1;
                 session.numberedOptions[optionNumber] = name;
-                const price = `${p.precioventa.toFixed(2)}`;
+                const price = prompts.formatPrecio(p.precioventa, p, formato);
                 return p.existencia > 0
                   ? `*${optionNumber}*. ${name} (${price})`
                   : `~*${optionNumber}*. ${name}~ (Agotado)`;
@@ -338,6 +519,13 @@ export class ConversationService implements OnModuleInit {
         return;
     }
     
+    if (await this.handleCartEdit(userJid, session, messageText, action)) {
+        return;
+    }
+    if (await this.handleSearch(userJid, session, messageText)) {
+        return;
+    }
+
     if (!action) {
         // If no command is found, assume the user is specifying a quantity for the pending product.
         await this.handleAwaitingQuantityForProduct(userJid, session, messageText);
@@ -430,7 +618,7 @@ export class ConversationService implements OnModuleInit {
         session.cart.push({
             sku: pendingProduct.sku,
             quantity,
-            precioVenta: selectedPresentation ? selectedPresentation.precioventa : pendingProduct.precioVenta,
+            precioVenta: selectedPresentation ? precioVigente(selectedPresentation.precioventa, selectedPresentation).precio : pendingProduct.precioVenta,
             nombreCorto: pendingProduct.nombreCorto,
             presentacion: presentationName,
         });
@@ -440,7 +628,7 @@ export class ConversationService implements OnModuleInit {
     
     session.state = ConversationState.BROWSING_PRODUCTS;
     session.pendingProduct = undefined;
-    session.numberedOptions = {};
+    this.restoreNumberedProducts(session);
 
     const optionsPrompt = prompts.buildOptionsPrompt([
         { command: 'CHAT' },
@@ -461,11 +649,12 @@ ${optionsPrompt}`);
         return;
     }
 
-    const sku = parts[0].toUpperCase();
+    // El primer término puede ser el número del producto en la lista mostrada o su SKU
+    const sku = session.numberedOptions[parts[0]] || parts[0].toUpperCase();
     const producto = await this.empresasService.findProductBySku(session.company!.id, sku);
 
     if (!producto) {
-        await this.sendMessage(userJid, session.sessionId, `Producto con SKU "${sku}" no encontrado.`);
+        await this.sendMessage(userJid, session.sessionId, `Producto "${parts[0]}" no encontrado.`);
         return;
     }
 
@@ -534,7 +723,9 @@ ${optionsPrompt}`);
         session.cart.push({
             sku: producto.sku,
             quantity,
-            precioVenta: selectedPresentation ? selectedPresentation.precioventa : producto.precioVenta,
+            precioVenta: selectedPresentation
+                ? precioVigente(selectedPresentation.precioventa, selectedPresentation).precio
+                : precioVigente(producto.precioVenta, producto).precio,
             nombreCorto: producto.nombreCorto,
             presentacion: presentationName,
         });
@@ -544,12 +735,16 @@ ${optionsPrompt}`);
   }
 
   private async handleShowCart(userJid: string, session: UserSessionDocument) {
-    const cartPrompt = prompts.buildCartPrompt(session.cart);
+    const cotizacion = session.cart.length > 0 ? await this.quoteOrder(userJid, session) : undefined;
+    const cartPrompt = prompts.buildCartPrompt(session.cart, await this.getFormatoMoneda(session), cotizacion?.envio, cotizacion?.impuesto, cotizacion?.descuento);
     await this.sendMessage(userJid, session.sessionId, cartPrompt);
 
     if (session.cart.length > 0) {
         const optionsPrompt = prompts.buildOptionsPrompt([
             { command: 'FINALIZE_ORDER', customDescription: 'Confirmar pedido' },
+            { command: 'REMOVE_FROM_CART' },
+            { command: 'EMPTY_CART' },
+            { command: 'APPLY_COUPON' },
             { command: 'RETURN_TO_CATEGORIES' },
             { command: 'REPEAT_MENU' },
             { command: 'CANCEL' },
@@ -558,122 +753,670 @@ ${optionsPrompt}`);
     }
   }
 
+  /**
+   * Procesa los comandos de edición del carrito ("quitar 2", "2 = 5", "vaciar", "cupon X").
+   * Devuelve true si el mensaje era una edición y ya fue atendido.
+   */
+  private async handleCartEdit(userJid: string, session: UserSessionDocument, messageText: string, command: keyof typeof COMMANDS | undefined): Promise<boolean> {
+    if (command === 'EMPTY_CART') {
+        session.cart = [];
+        await this.sendMessage(userJid, session.sessionId, '🗑️ Tu carrito fue vaciado.');
+        return true;
+    }
+
+    const parts = messageText.split(/\s+/);
+    if (parts[0] === COMMANDS.REMOVE_FROM_CART.mnemonic) {
+        const lineIndex = parseInt(parts[1], 10) - 1;
+        if (isNaN(lineIndex) || !session.cart[lineIndex]) {
+            await this.sendMessage(userJid, session.sessionId, `Indica el número de la línea a quitar (ej: *${COMMANDS.REMOVE_FROM_CART.mnemonic} 2*).`);
+            return true;
+        }
+        const [removed] = session.cart.splice(lineIndex, 1);
+        await this.sendMessage(userJid, session.sessionId, `🗑️ Quitado: ${removed.nombreCorto}${removed.presentacion ? ` (${removed.presentacion})` : ''}.`);
+        await this.handleShowCart(userJid, session);
+        return true;
+    }
+
+    if (parts[0] === COMMANDS.APPLY_COUPON.mnemonic) {
+        await this.handleApplyCoupon(userJid, session, parts[1]);
+        return true;
+    }
+
+    const setQuantityMatch = messageText.match(/^(\d+)\s*=\s*(\d+)$/);
+    if (setQuantityMatch) {
+        await this.setCartItemQuantity(userJid, session, parseInt(setQuantityMatch[1], 10) - 1, parseInt(setQuantityMatch[2], 10));
+        return true;
+    }
+
+    return false;
+  }
+
+  private async setCartItemQuantity(userJid: string, session: UserSessionDocument, lineIndex: number, quantity: number) {
+    const cartItem = session.cart[lineIndex];
+    if (!cartItem) {
+        await this.sendMessage(userJid, session.sessionId, `No existe la línea ${lineIndex + 1} en tu carrito.`);
+        return;
+    }
+
+    if (quantity === 0) {
+        session.cart.splice(lineIndex, 1);
+        await this.sendMessage(userJid, session.sessionId, `🗑️ Quitado: ${cartItem.nombreCorto}.`);
+        await this.handleShowCart(userJid, session);
+        return;
+    }
+
+    let itemStock = 0;
+    try {
+        const producto = await this.empresasService.findProductBySku(session.company!.id, cartItem.sku);
+        itemStock = cartItem.presentacion
+            ? producto.presentacion?.get(cartItem.presentacion)?.existencia ?? 0
+            : producto.existencia;
+    } catch (error) {
+        this.logger.warn(`Product ${cartItem.sku} not found while updating cart of ${userJid}: ${error.message}`);
+    }
+
+    if (itemStock < quantity) {
+        await this.sendMessage(userJid, session.sessionId, `Stock insuficiente para ${cartItem.nombreCorto}. Disponibles: ${itemStock}.`);
+        return;
+    }
+
+    cartItem.quantity = quantity;
+    await this.sendMessage(userJid, session.sessionId, `✏️ Actualizado: ${quantity} x ${cartItem.nombreCorto}${cartItem.presentacion ? ` (${cartItem.presentacion})` : ''}.`);
+    await this.handleShowCart(userJid, session);
+  }
+
+  private async handleApplyCoupon(userJid: string, session: UserSessionDocument, codigo?: string) {
+    if (!codigo) {
+        await this.sendMessage(userJid, session.sessionId, `Escribe el código después de la palabra *${COMMANDS.APPLY_COUPON.mnemonic}* (ej: *${COMMANDS.APPLY_COUPON.mnemonic} PROMO10*).`);
+        return;
+    }
+    if (codigo === COMMANDS.REMOVE_FROM_CART.mnemonic) {
+        session.coupon = undefined;
+        await this.sendMessage(userJid, session.sessionId, 'Quitamos el cupón de tu carrito.');
+        await this.handleShowCart(userJid, session);
+        return;
+    }
+    if (session.cart.length === 0) {
+        await this.sendMessage(userJid, session.sessionId, 'Agrega productos a tu carrito antes de aplicar un cupón.');
+        return;
+    }
+
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    try {
+        const { cupon } = await this.cuponesService.validar(session.company!.id, codigo, cliente._id.toString(), this.getCartSubtotal(session));
+        session.coupon = { codigo: cupon.codigo };
+        await this.sendMessage(userJid, session.sessionId, `🎟️ Cupón *${cupon.codigo}* aplicado.`);
+        await this.handleShowCart(userJid, session);
+    } catch (error) {
+        if (error instanceof HttpException) {
+            await this.sendMessage(userJid, session.sessionId, error.message);
+            return;
+        }
+        throw error;
+    }
+  }
+
+  /**
+   * Vuelve a validar el cupón de la sesión contra el carrito actual (puede haber vencido
+   * o el subtotal bajado del mínimo). Si ya no aplica se quita y se avisa al cliente.
+   */
+  private async getCouponDiscount(userJid: string, session: UserSessionDocument, clienteId: string, subtotal: number, decimales: number): Promise<prompts.DescuentoCupon | undefined> {
+    if (!session.coupon) return undefined;
+    try {
+        const { cupon, descuento } = await this.cuponesService.validar(session.company!.id, session.coupon.codigo, clienteId, subtotal);
+        return { codigo: cupon.codigo, monto: redondearMoneda(descuento, decimales) };
+    } catch (error) {
+        if (!(error instanceof HttpException)) throw error;
+        session.coupon = undefined;
+        await this.sendMessage(userJid, session.sessionId, `${error.message} Lo quitamos de tu carrito.`);
+        return undefined;
+    }
+  }
+
+  private getCartSubtotal(session: UserSessionDocument): number {
+    return session.cart.reduce((sum, item) => sum + (item.quantity * item.precioVenta), 0);
+  }
+
+  // Descuento, envío e impuestos del carrito actual; el envío y el impuesto se calculan sobre el subtotal ya descontado
+  private async quoteOrder(userJid: string, session: UserSessionDocument): Promise<{ envio: CotizacionEnvio; impuesto?: DesgloseImpuesto; descuento?: prompts.DescuentoCupon }> {
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    const { decimales } = getFormatoMoneda(empresa);
+    const subtotal = this.getCartSubtotal(session);
+    const descuento = await this.getCouponDiscount(userJid, session, cliente._id.toString(), subtotal, decimales);
+    const neto = subtotal - (descuento?.monto ?? 0);
+    return {
+        envio: calcularEnvio(empresa, cliente.geoUbicacion, neto),
+        impuesto: calcularImpuesto(empresa, neto, decimales),
+        descuento,
+    };
+  }
+
+  // Formato de montos de la empresa, guardado en la sesión al elegirla
+  private async getFormatoMoneda(session: UserSessionDocument): Promise<FormatoMoneda> {
+    if (!session.company!.formato) {
+        const empresa = await this.empresasService.findOne(session.company!.id);
+        session.company = { ...session.company!, formato: getFormatoMoneda(empresa) };
+    }
+    return session.company!.formato!;
+  }
+
+  /**
+   * Compara cada línea del carrito con el catálogo actual: actualiza precios, ajusta
+   * cantidades al stock disponible y retira productos agotados o eliminados.
+   */
+  private async revalidateCart(session: UserSessionDocument): Promise<prompts.CartChange[]> {
+    const productos = await this.empresasService.findProductsBySkus(session.company!.id, session.cart.map(item => item.sku));
+    const productosBySku = new Map(productos.map(p => [p.sku, p]));
+    const changes: prompts.CartChange[] = [];
+
+    for (const item of [...session.cart]) {
+        const nombre = item.presentacion ? `${item.nombreCorto} (${item.presentacion})` : item.nombreCorto;
+        const producto = productosBySku.get(item.sku);
+        const presentacion = item.presentacion ? producto?.presentacion?.get(item.presentacion) : undefined;
+
+        if (!producto || (item.presentacion && !presentacion)) {
+            changes.push({ nombre, tipo: 'no_disponible' });
+            session.cart.splice(session.cart.indexOf(item), 1);
+            continue;
+        }
+
+        const stock = presentacion ? presentacion.existencia : producto.existencia;
+        // La oferta puede haber empezado o vencido desde que se agregó al carrito
+        const precio = presentacion
+            ? precioVigente(presentacion.precioventa, presentacion).precio
+            : precioVigente(producto.precioVenta, producto).precio;
+
+        if (stock <= 0) {
+            changes.push({ nombre, tipo: 'agotado' });
+            session.cart.splice(session.cart.indexOf(item), 1);
+            continue;
+        }
+        if (stock < item.quantity) {
+            item.quantity = stock;
+            changes.push({ nombre, tipo: 'stock', cantidad: stock });
+        }
+        if (precio !== item.precioVenta) {
+            changes.push({ nombre, tipo: 'precio', precioAnterior: item.precioVenta, precioNuevo: precio });
+            item.precioVenta = precio;
+        }
+    }
+
+    return changes;
+  }
+
   private async handleCreateOrder(userJid: string, session: UserSessionDocument) {
     if (session.cart.length === 0) {
       await this.sendMessage(userJid, session.sessionId, 'Tu carrito está vacío.');
       return;
     }
 
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    if (!(await this.checkOrderRules(userJid, session, empresa))) {
+        return;
+    }
+    if (!estaAbierta(empresa)) {
+        // En modo programar solo se avisa; el pedido sigue su curso
+        await this.sendMessage(userJid, session.sessionId, this.buildStoreClosedMessage(empresa));
+        if (empresa.horario?.modoCerrado === ModoCerrado.BLOQUEAR) {
+            return;
+        }
+    }
+    const fechaEntrega = proximaFechaEntrega(empresa.reglasPedido?.diasEntrega, getZonaHoraria(empresa));
+    if (fechaEntrega) {
+        const { locale } = getFormatoMoneda(empresa);
+        const dias = [...empresa.reglasPedido!.diasEntrega].sort((a, b) => a - b).map(dia => nombreDiaSemana(dia, locale));
+        await this.sendMessage(userJid, session.sessionId, prompts.buildDeliveryDayPrompt(dias, formatFecha(fechaEntrega, locale, getZonaHoraria(empresa))));
+    }
+
     const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
-    session.state = ConversationState.AWAITING_CUSTOMER_DATA;
-
-    const nombreActual = cliente.nombre || 'No registrado';
-    const direccionActual = cliente.direccion || 'No registrada';
-    const telefonoActual = cliente.telefono || userJid.replace('@s.whatsapp.net', '');
-
-    const prompt = `Para procesar tu pedido, necesitamos confirmar tus datos de entrega.\n\n` +
-                   `*Datos actuales:*
-` +
-                   `*Nombre:* ${nombreActual}
-` +
-                   `*Dirección:* ${direccionActual}
-` +
-                   `*Teléfono:* ${telefonoActual}
-
-` +
-                   `*Para confirmar o actualizar, por favor envía tu información en un solo mensaje con el siguiente formato:*
-
-` +
-                   `*Nombre:* Tu nombre completo
-` +
-                   `*Dirección:* Tu dirección de entrega
-` +
-                   `*Teléfono:* Tu número de contacto (opcional)`;
+    if (cliente.direcciones.length === 0 && cliente.direccion) {
+        // Clientes anteriores a la libreta de direcciones
+        cliente.direcciones.push({ etiqueta: 'Principal', direccion: cliente.direccion, geoUbicacion: cliente.geoUbicacion });
+        await cliente.save();
+    }
+    session.numberedOptions = {};
+    session.selectedAddress = undefined;
+    session.paymentMethod = undefined;
+    session.state = ConversationState.COLLECTING_CLIENT_NAME;
 
-    await this.sendMessage(userJid, session.sessionId, prompt);
+    await this.sendMessage(userJid, session.sessionId, 'Para procesar tu pedido, necesitamos confirmar tus datos de entrega.');
+    await this.askCustomerField(userJid, session, cliente);
   }
 
-  private parseCustomerData(message: string): { nombre?: string; direccion?: string; telefono?: string } {
-    const nombreMatch = message.match(/nombre:\s*([\s\S]*?)(?:\n\*dirección:|\n\*teléfono:|$)/i);
-    const direccionMatch = message.match(/dirección:\s*([\s\S]*?)(?:\n\*nombre:|\n\*teléfono:|$)/i);
-    const telefonoMatch = message.match(/teléfono:\s*([\s\S]*?)(?:\n\*nombre:|\n\*dirección:|$)/i);
-  
-    return {
-      nombre: nombreMatch ? nombreMatch[1].trim() : undefined,
-      direccion: direccionMatch ? direccionMatch[1].trim() : undefined,
-      telefono: telefonoMatch ? telefonoMatch[1].trim() : undefined,
-    };
+  private getSavedCustomerField(cliente: ClienteDocument, userJid: string, state: ConversationState): string | undefined {
+    switch (state) {
+        case ConversationState.COLLECTING_CLIENT_NAME:
+            return cliente.nombre;
+        case ConversationState.COLLECTING_CLIENT_PHONE:
+            return cliente.telefono || userJid.replace('@s.whatsapp.net', '');
+    }
   }
-  
-  private async handleAwaitingCustomerData(userJid: string, session: UserSessionDocument, messageText: string) {
-    const data = this.parseCustomerData(messageText);
 
-    if (!data.nombre && !data.direccion) {
-        await this.sendMessage(userJid, session.sessionId, 'No pude entender tus datos. Por favor, envíalos en el formato solicitado.');
+  private async askCustomerField(userJid: string, session: UserSessionDocument, cliente: ClienteDocument) {
+    if (session.state === ConversationState.COLLECTING_CLIENT_ADDRESS && cliente.direcciones.length > 0) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildAddressChoicePrompt(cliente.direcciones));
         return;
     }
+    const savedValue = this.getSavedCustomerField(cliente, userJid, session.state as ConversationState);
+    await this.sendMessage(userJid, session.sessionId, prompts.buildCustomerFieldPrompt(CUSTOMER_DATA_FIELDS[session.state]!, savedValue));
+  }
 
+  private async handleCustomerDataStep(userJid: string, session: UserSessionDocument, text: string, command: keyof typeof COMMANDS | undefined) {
     const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    const state = session.state as ConversationState;
+    if (state === ConversationState.COLLECTING_CLIENT_ADDRESS) {
+        await this.handleAddressStep(userJid, session, cliente, text, command);
+        return;
+    }
+    const savedValue = this.getSavedCustomerField(cliente, userJid, state);
 
-    if (data.nombre) cliente.nombre = data.nombre;
-    if (data.direccion) cliente.direccion = data.direccion;
-    if (data.telefono) cliente.telefono = data.telefono;
-    
+    if (command === 'NO') {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildCustomerFieldPrompt(CUSTOMER_DATA_FIELDS[state]!));
+        return;
+    }
+
+    const keepSaved = (command === 'YES' || command === 'SKIP') && !!savedValue;
+    if (!keepSaved) {
+        if (command === 'YES' || command === 'SKIP' || text.length < 3) {
+            await this.sendMessage(userJid, session.sessionId, 'Por favor, escribe el dato solicitado.');
+            await this.askCustomerField(userJid, session, cliente);
+            return;
+        }
+
+        switch (state) {
+            case ConversationState.COLLECTING_CLIENT_NAME:
+                cliente.nombre = text;
+                break;
+            case ConversationState.COLLECTING_CLIENT_PHONE: {
+                const empresa = await this.empresasService.findOne(session.company!.id);
+                const telefono = normalizarTelefono(text, empresa.codigoPais);
+                if (!telefono) {
+                    await this.sendMessage(userJid, session.sessionId, prompts.buildInvalidPhonePrompt(PAIS_CONFIG[empresa.codigoPais].digitosTelefono));
+                    return;
+                }
+                cliente.telefono = telefono;
+                break;
+            }
+        }
+    } else if (state === ConversationState.COLLECTING_CLIENT_PHONE && !cliente.telefono) {
+        cliente.telefono = savedValue!;
+    }
+    await cliente.save();
+
+    switch (state) {
+        case ConversationState.COLLECTING_CLIENT_NAME:
+            session.state = ConversationState.COLLECTING_CLIENT_ADDRESS;
+            await this.askCustomerField(userJid, session, cliente);
+            return;
+    }
+
+    if (!tieneUbicacion(cliente.geoUbicacion)) {
+        session.state = ConversationState.COLLECTING_CLIENT_GEO;
+        await this.sendMessage(userJid, session.sessionId, prompts.buildLocationRequestPrompt());
+        return;
+    }
+    await this.askPaymentMethodOrSummary(userJid, session);
+  }
+
+  private async handleAddressStep(userJid: string, session: UserSessionDocument, cliente: ClienteDocument, text: string, command: keyof typeof COMMANDS | undefined) {
+    const index = parseInt(text, 10) - 1;
+    if (/^\d+$/.test(text) && index >= 0 && index < cliente.direcciones.length) {
+        this.selectAddress(session, cliente, index);
+        await cliente.save();
+        session.state = ConversationState.COLLECTING_CLIENT_PHONE;
+        await this.askCustomerField(userJid, session, cliente);
+        return;
+    }
+
+    if (command || text.length < 3) {
+        await this.sendMessage(userJid, session.sessionId, 'Por favor, escribe el dato solicitado.');
+        await this.askCustomerField(userJid, session, cliente);
+        return;
+    }
+
+    cliente.direcciones.push({ etiqueta: `Dirección ${cliente.direcciones.length + 1}`, direccion: text });
+    this.selectAddress(session, cliente, cliente.direcciones.length - 1);
+    await cliente.save();
+    session.state = ConversationState.COLLECTING_ADDRESS_LABEL;
+    await this.sendMessage(userJid, session.sessionId, prompts.buildAddressLabelPrompt(cliente.direcciones[session.selectedAddress!].etiqueta));
+  }
+
+  private async handleNewAddressDetails(userJid: string, session: UserSessionDocument, text: string, command: keyof typeof COMMANDS | undefined) {
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    const direccion = cliente.direcciones[session.selectedAddress!];
+    if (!direccion) {
+        await this.handleCreateOrder(userJid, session);
+        return;
+    }
+
+    if (session.state === ConversationState.COLLECTING_ADDRESS_LABEL) {
+        if (command !== 'SKIP') direccion.etiqueta = text;
+        await cliente.save();
+        session.state = ConversationState.COLLECTING_ADDRESS_REFERENCES;
+        await this.sendMessage(userJid, session.sessionId, prompts.buildAddressReferencesPrompt());
+        return;
+    }
+
+    if (command !== 'SKIP') direccion.referencias = text;
     await cliente.save();
+    session.state = ConversationState.COLLECTING_CLIENT_PHONE;
+    await this.askCustomerField(userJid, session, cliente);
+  }
+
+  // Copia la dirección guardada elegida como dirección vigente del cliente
+  private selectAddress(session: UserSessionDocument, cliente: ClienteDocument, index: number) {
+    const direccion = cliente.direcciones[index];
+    session.selectedAddress = index;
+    cliente.direccion = direccion.direccion;
+    cliente.geoUbicacion = tieneUbicacion(direccion.geoUbicacion)
+        ? direccion.geoUbicacion!
+        : { type: 'Point', coordinates: [0, 0] };
+  }
+
+  private async handleCollectingClientGeo(userJid: string, session: UserSessionDocument, command: keyof typeof COMMANDS | undefined) {
+    if (command === 'SKIP') {
+        await this.askPaymentMethodOrSummary(userJid, session);
+        return;
+    }
+    await this.sendMessage(userJid, session.sessionId, prompts.buildLocationRequestPrompt());
+  }
+
+  private async handleLocationMessage(userJid: string, session: UserSessionDocument, location: GenericLocation) {
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    cliente.geoUbicacion = { type: 'Point', coordinates: [location.longitude, location.latitude] };
+    const direccion = session.selectedAddress !== undefined ? cliente.direcciones[session.selectedAddress] : undefined;
+    if (direccion) {
+        direccion.geoUbicacion = cliente.geoUbicacion;
+    }
+    await cliente.save();
+    this.logger.log(`Saved delivery location for ${userJid}.`);
+
+    await this.sendMessage(userJid, session.sessionId, '📍 Guardamos tu ubicación de entrega.');
+    if (session.state === ConversationState.COLLECTING_CLIENT_GEO) {
+        await this.askPaymentMethodOrSummary(userJid, session);
+    }
+  }
+
+  private async askPaymentMethodOrSummary(userJid: string, session: UserSessionDocument) {
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    const metodos = (empresa.metodosPago || []).filter(m => m.activo !== false);
+    if (metodos.length === 0) {
+        await this.showOrderSummary(userJid, session);
+        return;
+    }
+
+    session.state = ConversationState.SELECTING_PAYMENT_METHOD;
+    await this.sendMessage(userJid, session.sessionId, prompts.buildPaymentMethodPrompt(metodos));
+  }
+
+  private async handlePaymentMethodSelection(userJid: string, session: UserSessionDocument, messageText: string) {
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    const metodos = (empresa.metodosPago || []).filter(m => m.activo !== false);
+    const metodo = metodos[parseInt(messageText, 10) - 1];
+
+    if (!/^\d+$/.test(messageText) || !metodo) {
+        await this.sendMessage(userJid, session.sessionId, 'Por favor, responde con el número de la forma de pago.');
+        await this.sendMessage(userJid, session.sessionId, prompts.buildPaymentMethodPrompt(metodos));
+        return;
+    }
+
+    session.paymentMethod = { tipo: metodo.tipo, nombre: metodo.nombre };
+    await this.showOrderSummary(userJid, session);
+  }
+
+  // Las fotos se toman como comprobante del último pedido del cliente que espera pago
+  private async findPedidoEsperandoComprobante(userJid: string, session: UserSessionDocument): Promise<PedidoDocument | null> {
+    if (!session.company) {
+        return null;
+    }
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    return this.pedidosService.findPendienteComprobante(session.company.id, cliente._id.toString());
+  }
+
+  private async handlePaymentProof(userJid: string, session: UserSessionDocument, pedido: PedidoDocument, image: GenericImage, originalMessage: unknown) {
+    const imagen = await this.whatsappService.downloadMedia(session.sessionId, originalMessage);
+    if (!imagen) {
+        await this.sendMessage(userJid, session.sessionId, 'No pudimos descargar tu imagen. Por favor, intenta enviarla de nuevo.');
+        return;
+    }
+
+    await this.pedidosService.adjuntarComprobante(pedido._id.toString(), imagen, image.mimetype);
+    this.logger.log(`Payment proof received from ${userJid} for pedido ${pedido.codigo}.`);
+    await this.sendMessage(userJid, session.sessionId, `🧾 Recibimos tu comprobante del pedido *${pedido.codigo}*. La tienda verificará el pago y te avisaremos.`);
+  }
+
+  private async showOrderSummary(userJid: string, session: UserSessionDocument) {
+    const changes = await this.revalidateCart(session);
+    if (changes.length > 0) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildCartChangesPrompt(changes, await this.getFormatoMoneda(session)));
+    }
+    if (session.cart.length === 0) {
+        session.state = ConversationState.BROWSING_PRODUCTS;
+        await this.sendMessage(userJid, session.sessionId, 'Tu carrito quedó vacío. Puedes seguir agregando productos.');
+        await this.handleRepeatMenu(userJid, session);
+        return;
+    }
+
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    session.state = ConversationState.CONFIRMING_ORDER;
+    session.numberedOptions = {};
+
+    const { envio, impuesto, descuento } = await this.quoteOrder(userJid, session);
+    const empresa = await this.empresasService.findOne(session.company!.id);
+    const fechaEntrega = proximaFechaEntrega(empresa.reglasPedido?.diasEntrega, getZonaHoraria(empresa));
+    const formato = await this.getFormatoMoneda(session);
+    const entrega = this.buildDireccionEntrega(session, cliente);
+    const summaryPrompt = prompts.buildOrderSummaryPrompt(session.cart, {
+        nombre: cliente.nombre,
+        direccion: entrega?.etiqueta ? `${entrega.etiqueta} - ${entrega.direccion}` : entrega?.direccion,
+        telefono: cliente.telefono || userJid.replace('@s.whatsapp.net', ''),
+        ubicacion: tieneUbicacion(cliente.geoUbicacion),
+        pago: session.paymentMethod?.nombre,
+        entrega: fechaEntrega ? formatFecha(fechaEntrega, formato.locale, getZonaHoraria(empresa)) : undefined,
+    }, formato, envio, impuesto, descuento);
+    await this.sendMessage(userJid, session.sessionId, summaryPrompt);
+
+    if (envio.fueraDeArea) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildOutOfAreaPrompt(envio.distanciaKm, empresa.areaInfluencia));
+        return;
+    }
+
+    const optionsPrompt = prompts.buildOptionsPrompt([
+        { command: 'YES', customDescription: 'Sí, confirmar pedido' },
+        { command: 'NO', customDescription: 'No, seguir comprando' },
+        { command: 'VIEW_CART', customDescription: 'Editar carrito' },
+        { command: 'EDIT_DATA' },
+        { command: 'CANCEL' },
+    ]);
+    await this.sendMessage(userJid, session.sessionId, optionsPrompt);
+  }
+
+  private async handleOrderConfirmation(userJid: string, session: UserSessionDocument, command: keyof typeof COMMANDS | undefined) {
+    switch (command) {
+        case 'YES':
+            await this.executeOrderCreation(userJid, session);
+            return;
+        case 'NO':
+            session.state = ConversationState.BROWSING_PRODUCTS;
+            await this.sendMessage(userJid, session.sessionId, 'Pedido sin confirmar. Tu carrito se mantiene, puedes seguir agregando productos.');
+            await this.sendMessage(userJid, session.sessionId, prompts.buildOptionsPrompt([
+                { command: 'VIEW_CART' },
+                { command: 'FINALIZE_ORDER' },
+                { command: 'RETURN_TO_CATEGORIES' },
+                { command: 'CANCEL' },
+            ]));
+            return;
+        case 'VIEW_CART':
+            session.state = ConversationState.BROWSING_PRODUCTS;
+            await this.handleShowCart(userJid, session);
+            return;
+        case 'EDIT_DATA':
+            await this.handleCreateOrder(userJid, session);
+            return;
+        default:
+            await this.sendMessage(userJid, session.sessionId, `Por favor, responde *${COMMANDS.YES.mnemonic}* para confirmar o *${COMMANDS.NO.mnemonic}* para seguir comprando.`);
+            await this.showOrderSummary(userJid, session);
+            return;
+    }
+  }
+
+  /**
+   * Aplica las reglas de pedido de la empresa (monto mínimo, cantidad máxima por SKU).
+   * Si el carrito no las cumple le explica al cliente qué falta y lo devuelve al catálogo.
+   */
+  private async checkOrderRules(userJid: string, session: UserSessionDocument, empresa: EmpresaDocument): Promise<boolean> {
+    const lineas = session.cart.map(item => ({ sku: item.sku, nombre: item.nombreCorto, cantidad: item.quantity }));
+    const incumplimientos = validarReglasPedido(empresa.reglasPedido, lineas, this.getCartSubtotal(session));
+    if (incumplimientos.length === 0) {
+        return true;
+    }
 
-    await this.executeOrderCreation(userJid, session);
+    session.state = ConversationState.BROWSING_PRODUCTS;
+    await this.sendMessage(userJid, session.sessionId, prompts.buildOrderRulesPrompt(incumplimientos, getFormatoMoneda(empresa)));
+    return false;
+  }
+
+  private buildStoreClosedMessage(empresa: EmpresaDocument): string {
+    const apertura = proximaApertura(empresa);
+    const { locale } = getFormatoMoneda(empresa);
+    return prompts.buildStoreClosedPrompt(
+        empresa.horario?.modoCerrado ?? ModoCerrado.PROGRAMAR,
+        empresa.horario?.mensajeCerrado,
+        apertura ? formatFechaHora(apertura, locale, getZonaHoraria(empresa)) : undefined,
+    );
+  }
+
+  private buildDireccionEntrega(session: UserSessionDocument, cliente: ClienteDocument): CreatePedidoDto['direccionEntrega'] {
+    if (!cliente.direccion) return undefined;
+    const seleccionada = session.selectedAddress !== undefined ? cliente.direcciones[session.selectedAddress] : undefined;
+    return {
+        etiqueta: seleccionada?.etiqueta,
+        direccion: cliente.direccion,
+        referencias: seleccionada?.referencias,
+        coordenadas: tieneUbicacion(cliente.geoUbicacion) ? cliente.geoUbicacion.coordinates : undefined,
+    };
   }
 
   private async executeOrderCreation(userJid: string, session: UserSessionDocument) {
     const empresa = await this.empresasService.findOne(session.company!.id);
     const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
-    const total = session.cart.reduce((sum, item) => sum + (item.quantity * item.precioVenta), 0);
+    if (!(await this.checkOrderRules(userJid, session, empresa))) {
+        return;
+    }
+    const abierta = estaAbierta(empresa);
+    if (!abierta && empresa.horario?.modoCerrado === ModoCerrado.BLOQUEAR) {
+        // Cerró mientras el cliente completaba sus datos
+        await this.sendMessage(userJid, session.sessionId, this.buildStoreClosedMessage(empresa));
+        return;
+    }
+    const programadoPara = abierta ? undefined : proximaApertura(empresa);
+    const subtotal = this.getCartSubtotal(session);
+    const formato = getFormatoMoneda(empresa);
+    const cuponSolicitado = session.coupon?.codigo;
+    const descuento = await this.getCouponDiscount(userJid, session, cliente._id.toString(), subtotal, formato.decimales);
+    if (cuponSolicitado && !descuento) {
+        // El resumen que confirmó el cliente incluía un descuento que ya no aplica
+        await this.showOrderSummary(userJid, session);
+        return;
+    }
+    const neto = subtotal - (descuento?.monto ?? 0);
+    const envio = calcularEnvio(empresa, cliente.geoUbicacion, neto);
+    const impuesto = calcularImpuesto(empresa, neto, formato.decimales);
+
+    if (envio.fueraDeArea) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildOutOfAreaPrompt(envio.distanciaKm, empresa.areaInfluencia));
+        return;
+    }
+
+    const total = redondearMoneda(neto + envio.costo + (impuesto && !impuesto.incluido ? impuesto.monto : 0), formato.decimales);
 
     const pedidoDto: CreatePedidoDto = {
         clienteId: cliente._id.toString(),
         empresaId: empresa._id.toString(),
-        items: session.cart.map(item => ({ sku: item.sku, cantidad: item.quantity, presentacion: item.presentacion })),
+        items: session.cart.map(item => ({
+            sku: item.sku,
+            cantidad: item.quantity,
+            presentacion: item.presentacion,
+            nombre: item.nombreCorto,
+            precioUnitario: item.precioVenta,
+            subtotal: item.quantity * item.precioVenta,
+        })),
         totalPrecio: total,
+        impuesto,
+        cupon: descuento ? { codigo: descuento.codigo, descuento: descuento.monto } : undefined,
+        costoEnvio: envio.costo,
+        distanciaKm: envio.distanciaKm,
+        direccionEntrega: this.buildDireccionEntrega(session, cliente),
+        fechaEntrega: proximaFechaEntrega(empresa.reglasPedido?.diasEntrega, getZonaHoraria(empresa), programadoPara)?.toISOString(),
+        programadoPara: programadoPara?.toISOString(),
+        moneda: formato.moneda,
+        metodoPago: session.paymentMethod as CreatePedidoDto['metodoPago'],
+        sessionId: session.sessionId,
     };
 
+    let pedido: PedidoDocument;
     try {
-        await this.pedidosService.create(pedidoDto);
-        for (const item of pedidoDto.items) {
-            await this.empresasService.decreaseStock(session.company!.id, item.sku, item.cantidad, item.presentacion);
-        }
+        pedido = await this.pedidosService.checkout(pedidoDto);
     } catch (error) {
+        if (error instanceof StockInsuficienteException) {
+            await this.handleStockShortage(userJid, session, error.faltantes);
+            return;
+        }
+        if (pedidoDto.cupon && error instanceof HttpException) {
+            // El cupón se agotó mientras el cliente confirmaba
+            session.coupon = undefined;
+            await this.sendMessage(userJid, session.sessionId, `${error.message} Lo quitamos de tu carrito.`);
+            await this.showOrderSummary(userJid, session);
+            return;
+        }
         console.error(`Error al procesar el pedido para ${userJid}:`, error);
         await this.sendMessage(userJid, session.sessionId, '🔴 Hubo un error al procesar tu pedido. Por favor, contacta a soporte.');
         return;
     }
 
     const customerName = cliente.nombre || 'Cliente';
-    const customerAddress = cliente.direccion || 'No especificada';
+    const customerAddress = pedidoDto.direccionEntrega
+        ? [pedidoDto.direccionEntrega.direccion, pedidoDto.direccionEntrega.referencias].filter(Boolean).join(' - ')
+        : 'No especificada';
     const customerPhone = cliente.telefono || userJid.replace('@s.whatsapp.net', '');
     const customerWhatsappLink = `https://wa.me/${userJid.replace('@s.whatsapp.net', '')}`;
 
     let companyNotificationMessage = `¡Nuevo Pedido Recibido!\n\n`;
-    companyNotificationMessage += `*Cliente:* ${customerName}\n` +
+    companyNotificationMessage += `*Pedido:* ${pedido.codigo}\n` +
+                               `*Cliente:* ${customerName}\n` +
                                `*Dirección de Entrega:* ${customerAddress}\n` +
                                `*Teléfono de Contacto:* ${customerPhone}\n` +
+                               `*Forma de pago:* ${pedidoDto.metodoPago?.nombre || 'No indicada'}\n` +
+                               (pedido.fechaEntrega ? `*Fecha de entrega:* ${formatFecha(pedido.fechaEntrega, formato.locale, getZonaHoraria(empresa))}\n` : '') +
                                `*WhatsApp Cliente:* ${userJid.replace('@s.whatsapp.net', '')}\n` +
                                `*Enlace para chatear:* ${customerWhatsappLink}\n\n` +
                                `*Detalles del Pedido:*\n`;
 
     pedidoDto.items.forEach(item => {
-        const cartItem = session.cart.find(cart => cart.sku === item.sku && cart.presentacion === item.presentacion);
-        const itemName = cartItem ? cartItem.nombreCorto : item.sku;
         const presentation = item.presentacion ? ` (${item.presentacion})` : '';
-        const price = cartItem ? ` (${cartItem.precioVenta.toFixed(2)} c/u)` : '';
-        companyNotificationMessage += `- ${item.cantidad} x ${itemName}${presentation}${price}\n`;
+        companyNotificationMessage += `- ${item.cantidad} x ${item.nombre}${presentation} (${formatMoneda(item.precioUnitario, formato)} c/u)\n`;
     });
 
-    companyNotificationMessage += `\n*Total:* ${total.toFixed(2)}
+    if (descuento) {
+        companyNotificationMessage += `\n*Cupón ${descuento.codigo}:* -${formatMoneda(descuento.monto, formato)}`;
+    }
+    if (impuesto) {
+        companyNotificationMessage += `\n*Base:* ${formatMoneda(impuesto.base, formato)}` +
+                                      `\n*${impuesto.nombre} ${impuesto.tasa}%${impuesto.incluido ? ' (incluido)' : ''}:* ${formatMoneda(impuesto.monto, formato)}`;
+    }
+    if (envio.costo > 0) {
+        companyNotificationMessage += `\n*Envío:* ${formatMoneda(envio.costo, formato)}${envio.distanciaKm !== undefined ? ` (${envio.distanciaKm.toFixed(1)} km)` : ''}`;
+    }
+    companyNotificationMessage += `\n*Total:* ${formatMoneda(total, formato)}
 `;
     companyNotificationMessage += `
 Por favor, contacta al cliente para coordinar la entrega.`;
 
-    if (empresa.whatsApp) {
+    if (empresa.whatsApp && programadoPara) {
+        await this.pedidosService.programarNotificacionEmpresa(pedido._id.toString(), `🕒 *Pedido recibido con la tienda cerrada*\n\n${companyNotificationMessage}`);
+        this.logger.log(`Order notification for ${pedido.codigo} scheduled for ${programadoPara.toISOString()}.`);
+    } else if (empresa.whatsApp) {
       try {
         const companyJid = `${empresa.codigoPais}${empresa.whatsApp}@s.whatsapp.net`;
         await this.whatsappService.sendMessage(session.sessionId, companyJid, companyNotificationMessage);
@@ -686,9 +1429,101 @@ Por favor, contacta al cliente para coordinar la entrega.`;
     }
 
     await this.sendMessage(userJid, session.sessionId, empresa.saludoDespedida || '¡Gracias por tu compra! Tu pedido ha sido procesado.');
+    await this.sendMessage(userJid, session.sessionId, `Tu número de pedido es *${pedido.codigo}*. Úsalo para cualquier consulta con la tienda.`);
+    if (programadoPara) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildScheduledOrderPrompt(formatFechaHora(programadoPara, formato.locale, getZonaHoraria(empresa))));
+    }
+    const metodoPago = empresa.metodosPago?.find(m => m.nombre === pedidoDto.metodoPago?.nombre);
+    if (metodoPago && metodoPago.tipo !== TipoMetodoPago.EFECTIVO) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildPaymentInstructionsPrompt(metodoPago, total, formato));
+    }
+    if (empresa.minutosCancelacionCliente > 0) {
+        await this.sendMessage(userJid, session.sessionId, prompts.buildCancelOrderHintPrompt(empresa.minutosCancelacionCliente));
+    }
     await this.resetSession(userJid, session, false);
   }
   
+  private async handleCancelOrder(userJid: string, session: UserSessionDocument) {
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    try {
+      const pedido = await this.pedidosService.cancelarUltimoPorCliente(cliente._id.toString(), 'Cancelado por el cliente desde WhatsApp', session.company?.id);
+      await this.sendMessage(userJid, session.sessionId, `✅ Tu pedido *${pedido.codigo}* fue cancelado. Ya avisamos a la tienda.`);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await this.sendMessage(userJid, session.sessionId, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async handleOrderHistory(userJid: string, session: UserSessionDocument) {
+    if (!session.company) {
+      await this.sendMessage(userJid, session.sessionId, 'Por favor, primero elige una empresa.');
+      return;
+    }
+
+    const cliente = await this.clientesService.findOrCreateByWhatsApp(userJid);
+    const pedidos = await this.pedidosService.findRecentByCliente(cliente._id.toString(), session.company.id);
+    session.recentOrders = pedidos.map(p => p._id.toString());
+    await this.sendMessage(userJid, session.sessionId, prompts.buildOrderHistoryPrompt(pedidos, await this.getFormatoMoneda(session)));
+  }
+
+  private async handleReorder(userJid: string, session: UserSessionDocument, messageText: string) {
+    if (!session.company) {
+      await this.sendMessage(userJid, session.sessionId, 'Por favor, primero elige una empresa.');
+      return;
+    }
+
+    const orderIndex = parseInt(messageText.split(/\s+/)[1], 10) - 1;
+    const pedidoId = session.recentOrders?.[orderIndex];
+    if (!pedidoId) {
+      await this.sendMessage(userJid, session.sessionId, `Pedido no válido. Envía *${COMMANDS.ORDER_HISTORY.mnemonic}* para ver tus pedidos y luego *${COMMANDS.REORDER.mnemonic} 1*.`);
+      return;
+    }
+
+    const pedido = await this.pedidosService.findOne(pedidoId);
+    session.cart = pedido.items.map(item => ({
+      sku: item.sku,
+      quantity: item.cantidad,
+      precioVenta: item.precioUnitario,
+      nombreCorto: item.nombre,
+      presentacion: item.presentacion,
+    }));
+
+    // Se conservan solo los productos con stock y con el precio vigente
+    const changes = await this.revalidateCart(session);
+    if (changes.length > 0) {
+      await this.sendMessage(userJid, session.sessionId, prompts.buildCartChangesPrompt(changes, await this.getFormatoMoneda(session)));
+    }
+
+    session.state = ConversationState.BROWSING_PRODUCTS;
+    session.pendingProduct = undefined;
+    if (session.cart.length === 0) {
+      await this.sendMessage(userJid, session.sessionId, 'Ninguno de los productos de ese pedido está disponible en este momento.');
+      await this.showAllProducts(userJid, session);
+      return;
+    }
+
+    await this.sendMessage(userJid, session.sessionId, `🔁 Armamos tu carrito a partir del pedido *${pedido.codigo}*.`);
+    await this.handleShowCart(userJid, session);
+  }
+
+  private async handleStockShortage(userJid: string, session: UserSessionDocument, faltantes: StockFaltante[]) {
+    // Ajustar el carrito a las existencias reales para que el cliente pueda volver a confirmar
+    for (const faltante of faltantes) {
+        const cartItem = session.cart.find(item => item.sku === faltante.sku && item.presentacion === faltante.presentacion);
+        if (cartItem) {
+            cartItem.quantity = faltante.disponible;
+        }
+    }
+    session.cart = session.cart.filter(item => item.quantity > 0);
+    session.state = ConversationState.BROWSING_PRODUCTS;
+
+    await this.sendMessage(userJid, session.sessionId, prompts.buildStockShortagePrompt(faltantes));
+    await this.handleShowCart(userJid, session);
+  }
+
   private async handleGoBack(userJid: string, session: UserSessionDocument) {
     switch (session.state) {
         case ConversationState.SELECTING_CATEGORY:
@@ -697,10 +1532,31 @@ Por favor, contacta al cliente para coordinar la entrega.`;
         case ConversationState.BROWSING_PRODUCTS:
             await this.showCategories(userJid, session);
             break;
+        case ConversationState.COLLECTING_CLIENT_ADDRESS:
+            session.state = ConversationState.COLLECTING_CLIENT_NAME;
+            await this.askCustomerField(userJid, session, await this.clientesService.findOrCreateByWhatsApp(userJid));
+            break;
+        case ConversationState.COLLECTING_CLIENT_PHONE:
+        case ConversationState.COLLECTING_ADDRESS_LABEL:
+        case ConversationState.COLLECTING_ADDRESS_REFERENCES:
+            session.state = ConversationState.COLLECTING_CLIENT_ADDRESS;
+            await this.askCustomerField(userJid, session, await this.clientesService.findOrCreateByWhatsApp(userJid));
+            break;
+        case ConversationState.COLLECTING_CLIENT_NAME:
+            session.state = ConversationState.BROWSING_PRODUCTS;
+            await this.handleShowCart(userJid, session);
+            break;
+        case ConversationState.CONFIRMING_ORDER:
+        case ConversationState.COLLECTING_CLIENT_GEO:
+        case ConversationState.SELECTING_PAYMENT_METHOD:
+            await this.handleCreateOrder(userJid, session);
+            break;
         case ConversationState.AWAITING_PRODUCT_ACTION:
             session.pendingProduct = undefined;
             // Determine whether to show categories or all products based on previous state or available categories
-            if (session.availableCategories && session.availableCategories.length > 0) {
+            if (session.listado) {
+                await this.showProductPage(userJid, session);
+            } else if (session.availableCategories && session.availableCategories.length > 0) {
                 await this.showCategories(userJid, session);
             } else {
                 await this.showAllProducts(userJid, session);
@@ -722,8 +1578,31 @@ Por favor, contacta al cliente para coordinar la entrega.`;
             await this.showCategories(userJid, session);
             break;
         case ConversationState.BROWSING_PRODUCTS:
-            // This is a simplification. A more robust implementation might store the last category.
-            await this.showAllProducts(userJid, session);
+            if (session.listado) {
+                await this.showProductPage(userJid, session);
+            } else {
+                await this.showAllProducts(userJid, session);
+            }
+            break;
+        case ConversationState.CONFIRMING_ORDER:
+            await this.showOrderSummary(userJid, session);
+            break;
+        case ConversationState.COLLECTING_CLIENT_GEO:
+            await this.sendMessage(userJid, session.sessionId, prompts.buildLocationRequestPrompt());
+            break;
+        case ConversationState.SELECTING_PAYMENT_METHOD:
+            await this.askPaymentMethodOrSummary(userJid, session);
+            break;
+        case ConversationState.COLLECTING_CLIENT_NAME:
+        case ConversationState.COLLECTING_CLIENT_ADDRESS:
+        case ConversationState.COLLECTING_CLIENT_PHONE:
+            await this.askCustomerField(userJid, session, await this.clientesService.findOrCreateByWhatsApp(userJid));
+            break;
+        case ConversationState.COLLECTING_ADDRESS_LABEL:
+            await this.sendMessage(userJid, session.sessionId, prompts.buildAddressLabelPrompt(`Dirección ${(session.selectedAddress ?? 0) + 1}`));
+            break;
+        case ConversationState.COLLECTING_ADDRESS_REFERENCES:
+            await this.sendMessage(userJid, session.sessionId, prompts.buildAddressReferencesPrompt());
             break;
         case ConversationState.AWAITING_PRODUCT_ACTION:
             if(session.pendingProduct) {
@@ -830,6 +1709,12 @@ Por favor, contacta al cliente para coordinar la entrega.`;
     session.numberedOptions = {};
     session.pendingProduct = undefined;
     session.previousState = undefined;
+    session.recentOrders = [];
+    session.selectedAddress = undefined;
+    session.paymentMethod = undefined;
+    session.coupon = undefined;
+    session.listado = undefined;
+    session.numberedProducts = [];
 
     if (this.sessionTimers.has(userJid)) {
         const timers = this.sessionTimers.get(userJid)!;
@@ -885,8 +1770,11 @@ Por favor, contacta al cliente para coordinar la entrega.`;
   }
 
 
+  // Los textos largos se envían en varios mensajes, cortados entre párrafos o líneas
   async sendMessage(to: string, sessionId: string, message: string): Promise<void> {
-    this.logger.log(`Sending message to ${to} via session ${sessionId}: "${message}"`);
-    await this.whatsappService.sendMessage(sessionId, to, message);
+    for (const part of dividirMensaje(message)) {
+        this.logger.log(`Sending message to ${to} via session ${sessionId}: "${part}"`);
+        await this.whatsappService.sendMessage(sessionId, to, part);
+    }
   }
 }
\ No newline at end of file
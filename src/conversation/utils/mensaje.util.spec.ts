@@ -0,0 +1,33 @@
+import { dividirMensaje } from './mensaje.util';
+
+describe('mensaje.util', () => {
+  it('should leave short messages untouched', () => {
+    expect(dividirMensaje('Hola')).toEqual(['Hola']);
+    expect(dividirMensaje('')).toEqual(['']);
+  });
+
+  it('should split between paragraphs before splitting lines', () => {
+    const texto = 'aaaa\nbbbb\n\ncccc\ndddd';
+    expect(dividirMensaje(texto, 14)).toEqual(['aaaa\nbbbb', 'cccc\ndddd']);
+  });
+
+  it('should fall back to words and then to a hard cut', () => {
+    expect(dividirMensaje('uno dos tres cuatro', 10)).toEqual([
+      'uno dos',
+      'tres',
+      'cuatro',
+    ]);
+    expect(dividirMensaje('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should never return parts longer than the limit', () => {
+    const texto = Array.from(
+      { length: 300 },
+      (_, i) => `*${i + 1}*. Producto ${i + 1} - $ 1.000`,
+    ).join('\n\n');
+    const partes = dividirMensaje(texto, 500);
+    expect(partes.length).toBeGreaterThan(1);
+    expect(partes.every(p => p.length <= 500)).toBe(true);
+    expect(partes.join('\n\n')).toBe(texto);
+  });
+});
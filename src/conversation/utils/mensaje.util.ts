@@ -0,0 +1,38 @@
+// WhatsApp corta los textos de más de 4096 caracteres; se deja margen para el formato
+export const LONGITUD_MAXIMA_MENSAJE = 4000;
+
+// Separadores preferidos para cortar, del más al menos natural
+const SEPARADORES = ['\n\n', '\n', ' '];
+
+/**
+ * Divide un texto en partes de a lo sumo `maximo` caracteres, cortando entre párrafos,
+ * luego entre líneas y luego entre palabras. Solo parte una palabra si no hay otra opción.
+ */
+export function dividirMensaje(
+  texto: string,
+  maximo: number = LONGITUD_MAXIMA_MENSAJE,
+): string[] {
+  const partes: string[] = [];
+  let resto = texto;
+
+  while (resto.length > maximo) {
+    const corte = buscarCorte(resto.slice(0, maximo + 1), maximo);
+    partes.push(resto.slice(0, corte).trimEnd());
+    resto = resto.slice(corte).trimStart();
+  }
+
+  if (resto || partes.length === 0) {
+    partes.push(resto);
+  }
+  return partes;
+}
+
+function buscarCorte(ventana: string, maximo: number): number {
+  for (const separador of SEPARADORES) {
+    // Un corte muy temprano dejaría mensajes casi vacíos; se prueba el siguiente separador
+    const indice = ventana.lastIndexOf(separador);
+    if (indice >= maximo / 2) return indice;
+  }
+  const espacio = Math.max(ventana.lastIndexOf('\n'), ventana.lastIndexOf(' '));
+  return espacio > 0 ? espacio : maximo;
+}
@@ -0,0 +1,32 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CuponesController } from './cupones.controller';
+import { CuponesService } from './cupones.service';
+import { TipoCupon } from './enums/tipo-cupon.enum';
+
+describe('CuponesController', () => {
+  let controller: CuponesController;
+  const cuponesService = {
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CuponesController],
+      providers: [{ provide: CuponesService, useValue: cuponesService }],
+    }).compile();
+
+    controller = module.get<CuponesController>(CuponesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should create a coupon for the empresa', async () => {
+    const dto = { codigo: 'PROMO10', tipo: TipoCupon.PORCENTAJE, valor: 10 };
+    cuponesService.create.mockResolvedValue({ ...dto, empresaId: 'empresa1' });
+
+    await controller.create('empresa1', dto);
+    expect(cuponesService.create).toHaveBeenCalledWith('empresa1', dto);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ValidationPipe,
+} from '@nestjs/common';
+import { CuponesService } from './cupones.service';
+import { CreateCuponDto } from './dto/create-cupon.dto';
+import { UpdateCuponDto } from './dto/update-cupon.dto';
+
+@Controller('cupones')
+export class CuponesController {
+  constructor(private readonly cuponesService: CuponesService) {}
+
+  @Get('empresa/:empresaId')
+  findAllByEmpresa(@Param('empresaId') empresaId: string) {
+    return this.cuponesService.findAllByEmpresa(empresaId);
+  }
+
+  @Post('empresa/:empresaId')
+  create(
+    @Param('empresaId') empresaId: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    createCuponDto: CreateCuponDto,
+  ) {
+    return this.cuponesService.create(empresaId, createCuponDto);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.cuponesService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    updateCuponDto: UpdateCuponDto,
+  ) {
+    return this.cuponesService.update(id, updateCuponDto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.cuponesService.remove(id);
+  }
+}
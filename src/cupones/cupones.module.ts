@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CuponesController } from './cupones.controller';
+import { CuponesService } from './cupones.service';
+import { Cupon, CuponSchema } from './schemas/cupon.schema';
+import { Pedido, PedidoSchema } from '../pedidos/schemas/pedido.schema';
+import { Empresa, EmpresaSchema } from '../empresas/schemas/empresa.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Cupon.name, schema: CuponSchema },
+      // Solo lectura, para contar los usos de cada cliente
+      { name: Pedido.name, schema: PedidoSchema },
+      // Solo lectura, para mostrar los montos en la moneda de la empresa
+      { name: Empresa.name, schema: EmpresaSchema },
+    ]),
+  ],
+  controllers: [CuponesController],
+  providers: [CuponesService],
+  exports: [CuponesService],
+})
+export class CuponesModule {}
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { CuponesService } from './cupones.service';
+import { Cupon } from './schemas/cupon.schema';
+import { TipoCupon } from './enums/tipo-cupon.enum';
+import { Pedido } from '../pedidos/schemas/pedido.schema';
+import { Empresa } from '../empresas/schemas/empresa.schema';
+import { PaisCodigo } from '../empresas/enums/pais-codigo.enum';
+import { formatMoneda } from '../empresas/utils/moneda.util';
+
+const execOf = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+describe('CuponesService', () => {
+  let service: CuponesService;
+  const cuponModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+  };
+  const pedidoModel = { countDocuments: jest.fn() };
+  const empresaModel = { findById: jest.fn() };
+  const cupon = (datos: Partial<Cupon> = {}) => ({
+    codigo: 'PROMO10',
+    tipo: TipoCupon.PORCENTAJE,
+    valor: 10,
+    compraMinima: 0,
+    usos: 0,
+    activo: true,
+    ...datos,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CuponesService,
+        { provide: getModelToken(Cupon.name), useValue: cuponModel },
+        { provide: getModelToken(Pedido.name), useValue: pedidoModel },
+        { provide: getModelToken(Empresa.name), useValue: empresaModel },
+      ],
+    }).compile();
+
+    service = module.get<CuponesService>(CuponesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should compute a percentage discount on the subtotal', async () => {
+    cuponModel.findOne.mockReturnValue(execOf(cupon()));
+
+    const { descuento } = await service.validar(
+      'empresa1',
+      'promo10',
+      'cliente1',
+      50000,
+    );
+
+    expect(cuponModel.findOne).toHaveBeenCalledWith({
+      empresaId: 'empresa1',
+      codigo: 'PROMO10',
+    });
+    expect(descuento).toBe(5000);
+  });
+
+  it('should never discount more than the subtotal', async () => {
+    cuponModel.findOne.mockReturnValue(
+      execOf(cupon({ tipo: TipoCupon.FIJO, valor: 20000 })),
+    );
+
+    await expect(
+      service.validar('empresa1', 'PROMO10', 'cliente1', 15000),
+    ).resolves.toMatchObject({ descuento: 15000 });
+  });
+
+  it('should reject expired coupons and purchases under the minimum', async () => {
+    cuponModel.findOne.mockReturnValueOnce(
+      execOf(cupon({ validoHasta: new Date('2020-01-01') })),
+    );
+    await expect(
+      service.validar('empresa1', 'PROMO10', 'cliente1', 50000),
+    ).rejects.toThrow('ya venció');
+
+    cuponModel.findOne.mockReturnValueOnce(
+      execOf(cupon({ compraMinima: 100000 })),
+    );
+    empresaModel.findById.mockReturnValue({
+      select: jest.fn().mockReturnValue(execOf(null)),
+    });
+    await expect(
+      service.validar('empresa1', 'PROMO10', 'cliente1', 50000),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should show the minimum purchase in the empresa currency', async () => {
+    cuponModel.findOne.mockReturnValue(execOf(cupon({ compraMinima: 100000 })));
+    empresaModel.findById.mockReturnValue({
+      select: jest
+        .fn()
+        .mockReturnValue(execOf({ codigoPais: PaisCodigo.COLOMBIA })),
+    });
+
+    const minimo = formatMoneda(100000, {
+      moneda: 'COP',
+      locale: 'es-CO',
+      decimales: 0,
+    });
+    await expect(
+      service.validar('empresa1', 'PROMO10', 'cliente1', 50000),
+    ).rejects.toThrow(`requiere una compra mínima de ${minimo}.`);
+    expect(empresaModel.findById).toHaveBeenCalledWith('empresa1');
+  });
+
+  it('should enforce the per-customer limit ignoring cancelled pedidos', async () => {
+    cuponModel.findOne.mockReturnValue(execOf(cupon({ usosPorCliente: 1 })));
+    pedidoModel.countDocuments.mockReturnValue(execOf(1));
+
+    await expect(
+      service.validar('empresa1', 'PROMO10', 'cliente1', 50000),
+    ).rejects.toThrow('máximo de veces');
+    expect(pedidoModel.countDocuments.mock.calls[0][0]).toMatchObject({
+      clienteId: 'cliente1',
+      'cupon.codigo': 'PROMO10',
+    });
+  });
+
+  it('should fail to register a use once the coupon is exhausted', async () => {
+    cuponModel.updateOne.mockReturnValue(execOf({ modifiedCount: 0 }));
+
+    await expect(
+      service.registrarUso('empresa1', 'PROMO10'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Cupon, CuponDocument } from './schemas/cupon.schema';
+import { TipoCupon } from './enums/tipo-cupon.enum';
+import { CreateCuponDto } from './dto/create-cupon.dto';
+import { UpdateCuponDto } from './dto/update-cupon.dto';
+import { Pedido, PedidoDocument } from '../pedidos/schemas/pedido.schema';
+import { EstadoPedido } from '../pedidos/enums/estado-pedido.enum';
+import { Empresa, EmpresaDocument } from '../empresas/schemas/empresa.schema';
+import { formatMoneda, getFormatoMoneda } from '../empresas/utils/moneda.util';
+
+export interface CuponAplicado {
+  cupon: CuponDocument;
+  descuento: number;
+}
+
+@Injectable()
+export class CuponesService {
+  constructor(
+    @InjectModel(Cupon.name) private cuponModel: Model<CuponDocument>,
+    @InjectModel(Pedido.name) private pedidoModel: Model<PedidoDocument>,
+    @InjectModel(Empresa.name) private empresaModel: Model<EmpresaDocument>,
+  ) {}
+
+  async create(
+    empresaId: string,
+    createCuponDto: CreateCuponDto,
+  ): Promise<CuponDocument> {
+    this.assertValor(createCuponDto.tipo, createCuponDto.valor);
+    const codigo = createCuponDto.codigo.trim().toUpperCase();
+    if (await this.cuponModel.exists({ empresaId, codigo }).exec()) {
+      throw new BadRequestException(
+        `El cupón "${codigo}" ya existe en esta empresa.`,
+      );
+    }
+    const createdCupon = new this.cuponModel({
+      ...createCuponDto,
+      empresaId,
+      codigo,
+    });
+    return createdCupon.save();
+  }
+
+  async findAllByEmpresa(empresaId: string): Promise<CuponDocument[]> {
+    return this.cuponModel.find({ empresaId }).sort({ createdAt: -1 }).exec();
+  }
+
+  async findOne(id: string): Promise<CuponDocument> {
+    const cupon = await this.cuponModel.findById(id).exec();
+    if (!cupon) {
+      throw new NotFoundException(`Cupón con ID "${id}" no encontrado.`);
+    }
+    return cupon;
+  }
+
+  async update(
+    id: string,
+    updateCuponDto: UpdateCuponDto,
+  ): Promise<CuponDocument> {
+    const cupon = await this.findOne(id);
+    this.assertValor(
+      updateCuponDto.tipo ?? cupon.tipo,
+      updateCuponDto.valor ?? cupon.valor,
+    );
+    if (updateCuponDto.codigo) {
+      updateCuponDto.codigo = updateCuponDto.codigo.trim().toUpperCase();
+      const duplicado = await this.cuponModel
+        .exists({
+          empresaId: cupon.empresaId,
+          codigo: updateCuponDto.codigo,
+          _id: { $ne: cupon._id },
+        })
+        .exec();
+      if (duplicado) {
+        throw new BadRequestException(
+          `El cupón "${updateCuponDto.codigo}" ya existe en esta empresa.`,
+        );
+      }
+    }
+    cupon.set(updateCuponDto);
+    return cupon.save();
+  }
+
+  async remove(id: string): Promise<CuponDocument> {
+    const cupon = await this.cuponModel.findByIdAndDelete(id).exec();
+    if (!cupon) {
+      throw new NotFoundException(
+        `Cupón con ID "${id}" no encontrado para eliminar.`,
+      );
+    }
+    return cupon;
+  }
+
+  /**
+   * Comprueba que el cliente puede usar el cupón sobre el subtotal dado y calcula el
+   * descuento (nunca mayor al subtotal). Lanza BadRequestException con el motivo en
+   * un texto apto para mostrarle al cliente.
+   */
+  async validar(
+    empresaId: string,
+    codigo: string,
+    clienteId: string,
+    subtotal: number,
+  ): Promise<CuponAplicado> {
+    const cupon = await this.cuponModel
+      .findOne({ empresaId, codigo: codigo.trim().toUpperCase() })
+      .exec();
+    if (!cupon || !cupon.activo) {
+      throw new BadRequestException(
+        `El cupón "${codigo.toUpperCase()}" no existe o no está activo.`,
+      );
+    }
+
+    const ahora = new Date();
+    if (cupon.validoDesde && cupon.validoDesde > ahora) {
+      throw new BadRequestException(
+        `El cupón "${cupon.codigo}" todavía no está vigente.`,
+      );
+    }
+    if (cupon.validoHasta && cupon.validoHasta < ahora) {
+      throw new BadRequestException(`El cupón "${cupon.codigo}" ya venció.`);
+    }
+    if (cupon.usosMaximos && cupon.usos >= cupon.usosMaximos) {
+      throw new BadRequestException(`El cupón "${cupon.codigo}" ya se agotó.`);
+    }
+    if (subtotal < cupon.compraMinima) {
+      const compraMinima = await this.formatMonto(
+        empresaId,
+        cupon.compraMinima,
+      );
+      throw new BadRequestException(
+        `El cupón "${cupon.codigo}" requiere una compra mínima de ${compraMinima}.`,
+      );
+    }
+    if (cupon.usosPorCliente) {
+      const usosCliente = await this.pedidoModel
+        .countDocuments({
+          empresaId,
+          clienteId,
+          'cupon.codigo': cupon.codigo,
+          estadoPedido: {
+            $nin: [EstadoPedido.CANCELADO, EstadoPedido.RECHAZADO],
+          },
+        })
+        .exec();
+      if (usosCliente >= cupon.usosPorCliente) {
+        throw new BadRequestException(
+          `Ya usaste el cupón "${cupon.codigo}" el máximo de veces permitido.`,
+        );
+      }
+    }
+
+    const descuento =
+      cupon.tipo === TipoCupon.PORCENTAJE
+        ? (subtotal * cupon.valor) / 100
+        : cupon.valor;
+    return { cupon, descuento: Math.min(descuento, subtotal) };
+  }
+
+  // Suma un uso sin pasar de `usosMaximos`, aunque dos pedidos lleguen a la vez
+  async registrarUso(empresaId: string, codigo: string): Promise<void> {
+    const filter: FilterQuery<CuponDocument> = {
+      empresaId,
+      codigo,
+      activo: true,
+      $or: [
+        { usosMaximos: null },
+        { $expr: { $lt: ['$usos', '$usosMaximos'] } },
+      ],
+    };
+    const result = await this.cuponModel
+      .updateOne(filter, { $inc: { usos: 1 } })
+      .exec();
+    if (result.modifiedCount === 0) {
+      throw new BadRequestException(
+        `El cupón "${codigo}" ya no está disponible.`,
+      );
+    }
+  }
+
+  async liberarUso(empresaId: string, codigo: string): Promise<void> {
+    await this.cuponModel
+      .updateOne(
+        { empresaId, codigo, usos: { $gt: 0 } },
+        { $inc: { usos: -1 } },
+      )
+      .exec();
+  }
+
+  // Monto con la moneda y el formato de la empresa, para los mensajes al cliente
+  private async formatMonto(empresaId: string, monto: number): Promise<string> {
+    const empresa = await this.empresaModel
+      .findById(empresaId)
+      .select('codigoPais moneda locale')
+      .exec();
+    return empresa
+      ? formatMoneda(monto, getFormatoMoneda(empresa))
+      : String(monto);
+  }
+
+  private assertValor(tipo: TipoCupon, valor: number) {
+    if (tipo === TipoCupon.PORCENTAJE && valor > 100) {
+      throw new BadRequestException(
+        'Un cupón de porcentaje no puede superar el 100%.',
+      );
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  Min,
+  Matches,
+} from 'class-validator';
+import { TipoCupon } from '../enums/tipo-cupon.enum';
+
+export class CreateCuponDto {
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message:
+      'El código solo puede tener letras, números, guiones y guiones bajos',
+  })
+  codigo: string;
+
+  @IsString()
+  @IsOptional()
+  descripcion?: string;
+
+  @IsEnum(TipoCupon)
+  tipo: TipoCupon;
+
+  // Los porcentajes mayores a 100 se rechazan en el servicio
+  @IsNumber()
+  @Min(0)
+  valor: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  compraMinima?: number;
+
+  @IsDateString()
+  @IsOptional()
+  validoDesde?: string;
+
+  @IsDateString()
+  @IsOptional()
+  validoHasta?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  usosMaximos?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  usosPorCliente?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  activo?: boolean;
+}
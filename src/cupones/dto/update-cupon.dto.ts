@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateCuponDto } from './create-cupon.dto';
+
+export class UpdateCuponDto extends PartialType(CreateCuponDto) {}
@@ -0,0 +1,4 @@
+export enum TipoCupon {
+  PORCENTAJE = 'porcentaje', // `valor` es el % de descuento sobre el subtotal
+  FIJO = 'fijo', // `valor` es un monto en la moneda de la empresa
+}
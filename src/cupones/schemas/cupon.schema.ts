@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { TipoCupon } from '../enums/tipo-cupon.enum';
+
+export type CuponDocument = Cupon & Document;
+
+@Schema({ timestamps: true })
+export class Cupon {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Empresa', required: true })
+  empresaId: MongooseSchema.Types.ObjectId;
+
+  // Código que escribe el cliente; se guarda en mayúsculas
+  @Prop({ required: true, uppercase: true, trim: true })
+  codigo: string;
+
+  @Prop()
+  descripcion?: string;
+
+  @Prop({ required: true, type: String, enum: Object.values(TipoCupon) })
+  tipo: TipoCupon;
+
+  @Prop({ required: true })
+  valor: number;
+
+  // Subtotal mínimo del carrito para poder usarlo
+  @Prop({ type: Number, default: 0 })
+  compraMinima: number;
+
+  @Prop()
+  validoDesde?: Date;
+
+  @Prop()
+  validoHasta?: Date;
+
+  // Usos totales permitidos entre todos los clientes; sin límite si no se define
+  @Prop()
+  usosMaximos?: number;
+
+  @Prop()
+  usosPorCliente?: number;
+
+  @Prop({ type: Number, default: 0 })
+  usos: number;
+
+  @Prop({ default: true })
+  activo: boolean;
+}
+
+export const CuponSchema = SchemaFactory.createForClass(Cupon);
+CuponSchema.index({ empresaId: 1, codigo: 1 }, { unique: true });
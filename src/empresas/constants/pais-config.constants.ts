@@ -0,0 +1,38 @@
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+
+// Configuración regional de cada país soportado
+export interface PaisConfig {
+  moneda: string; // Código ISO 4217
+  locale: string; // Formato de números y fechas (BCP 47)
+  decimales: number; // Decimales con los que se muestran y redondean los montos
+  impuesto: { nombre: string; tasa: number }; // Impuesto general a las ventas, tasa en %
+  digitosTelefono: number; // Número nacional, sin indicativo ni 0 inicial
+  zonaHoraria: string; // IANA, para días de entrega y horarios
+}
+
+export const PAIS_CONFIG: Record<PaisCodigo, PaisConfig> = {
+  [PaisCodigo.COLOMBIA]: {
+    moneda: 'COP',
+    locale: 'es-CO',
+    decimales: 0,
+    impuesto: { nombre: 'IVA', tasa: 19 },
+    digitosTelefono: 10,
+    zonaHoraria: 'America/Bogota',
+  },
+  [PaisCodigo.ECUADOR]: {
+    moneda: 'USD',
+    locale: 'es-EC',
+    decimales: 2,
+    impuesto: { nombre: 'IVA', tasa: 15 },
+    digitosTelefono: 9,
+    zonaHoraria: 'America/Guayaquil',
+  },
+  [PaisCodigo.VENEZUELA]: {
+    moneda: 'VES',
+    locale: 'es-VE',
+    decimales: 2,
+    impuesto: { nombre: 'IVA', tasa: 16 },
+    digitosTelefono: 10,
+    zonaHoraria: 'America/Caracas',
+  },
+};
@@ -1,7 +1,156 @@
-import { IsString, IsNotEmpty, IsOptional, IsEmail, IsUrl, IsEnum, IsNumber, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsUrl,
+  IsEnum,
+  IsNumber,
+  IsBoolean,
+  IsIn,
+  IsArray,
+  ValidateNested,
+  Min,
+  Max,
+  IsISO4217CurrencyCode,
+  IsLocale,
+  IsInt,
+  ArrayUnique,
+  Matches,
+  IsTimeZone,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { EmpresaTipo } from '../enums/empresa-tipo.enum';
 import { PaisCodigo } from '../enums/pais-codigo.enum';
 import { TipoWebPg } from '../enums/tipo-web-pg.enum';
+import { TipoMetodoPago } from '../enums/tipo-metodo-pago.enum';
+import { ModoCerrado } from '../enums/modo-cerrado.enum';
+
+class RangoEnvioDto {
+  @IsNumber()
+  hastaKm: number;
+
+  @IsNumber()
+  costo: number;
+}
+
+class TarifaEnvioDto {
+  @IsIn(['fija', 'distancia'])
+  tipo: 'fija' | 'distancia';
+
+  @IsNumber()
+  @IsOptional()
+  costoFijo?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RangoEnvioDto)
+  @IsOptional()
+  rangos?: RangoEnvioDto[];
+
+  @IsNumber()
+  @IsOptional()
+  envioGratisDesde?: number;
+}
+
+class ConfigImpuestoDto {
+  @IsBoolean()
+  aplica: boolean;
+
+  @IsString()
+  @IsOptional()
+  nombre?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  tasa?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  preciosIncluyenImpuesto?: boolean;
+}
+
+class MetodoPagoDto {
+  @IsEnum(TipoMetodoPago)
+  tipo: TipoMetodoPago;
+
+  @IsString()
+  @IsNotEmpty()
+  nombre: string;
+
+  @IsString()
+  @IsOptional()
+  detalles?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  activo?: boolean;
+}
+
+class ReglasPedidoDto {
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  montoMinimo?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  cantidadMaximaPorProducto?: number;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  diasEntrega?: number[];
+}
+
+const HORA_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+class TramoHorarioDto {
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dia: number;
+
+  @Matches(HORA_REGEX, { message: 'abre debe tener el formato HH:mm' })
+  abre: string;
+
+  @Matches(HORA_REGEX, { message: 'cierra debe tener el formato HH:mm' })
+  cierra: string;
+}
+
+class HorarioEmpresaDto {
+  @IsTimeZone()
+  @IsOptional()
+  zonaHoraria?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TramoHorarioDto)
+  @IsOptional()
+  tramos?: TramoHorarioDto[];
+
+  @IsArray()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    each: true,
+    message: 'Los feriados deben tener el formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  feriados?: string[];
+
+  @IsString()
+  @IsOptional()
+  mensajeCerrado?: string;
+
+  @IsEnum(ModoCerrado)
+  @IsOptional()
+  modoCerrado?: ModoCerrado;
+}
 
 export class CreateEmpresaDto {
   @IsString()
@@ -28,6 +177,19 @@ export class CreateEmpresaDto {
   @IsNotEmpty()
   codigoPais: PaisCodigo;
 
+  @IsISO4217CurrencyCode()
+  @IsOptional()
+  moneda?: string;
+
+  @IsLocale()
+  @IsOptional()
+  locale?: string;
+
+  @ValidateNested()
+  @Type(() => ConfigImpuestoDto)
+  @IsOptional()
+  impuestos?: ConfigImpuestoDto;
+
   @IsString()
   @IsOptional()
   telefono?: string;
@@ -55,6 +217,27 @@ export class CreateEmpresaDto {
   @IsOptional()
   areaInfluencia?: number;
 
+  @ValidateNested()
+  @Type(() => TarifaEnvioDto)
+  @IsOptional()
+  tarifaEnvio?: TarifaEnvioDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MetodoPagoDto)
+  @IsOptional()
+  metodosPago?: MetodoPagoDto[];
+
+  @ValidateNested()
+  @Type(() => ReglasPedidoDto)
+  @IsOptional()
+  reglasPedido?: ReglasPedidoDto;
+
+  @ValidateNested()
+  @Type(() => HorarioEmpresaDto)
+  @IsOptional()
+  horario?: HorarioEmpresaDto;
+
   @IsBoolean()
   @IsOptional()
   opcionIA?: boolean;
@@ -73,4 +256,14 @@ export class CreateEmpresaDto {
 
   @IsOptional()
   categorias?: string[];
+
+  @IsNumber()
+  @IsOptional()
+  minutosCancelacionCliente?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  productosPorPagina?: number;
 }
\ No newline at end of file
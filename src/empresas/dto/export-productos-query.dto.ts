@@ -0,0 +1,20 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ModoPresentacion } from '../utils/catalogo.util';
+
+export const FORMATOS_EXPORTACION = ['xlsx', 'csv', 'json'] as const;
+export type FormatoExportacion = (typeof FORMATOS_EXPORTACION)[number];
+
+export class ExportProductosQueryDto {
+  @IsOptional()
+  @IsIn(FORMATOS_EXPORTACION)
+  formato?: FormatoExportacion = 'xlsx';
+
+  @IsOptional()
+  @IsString()
+  categoria?: string;
+
+  // "json": una columna presentacion con todas; "columnas": una columna por presentación
+  @IsOptional()
+  @IsIn(['json', 'columnas'])
+  presentacion?: ModoPresentacion = 'json';
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNumber, IsOptional } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsDateString } from 'class-validator';
 
 export class ProductoImportDto {
   @IsString()
@@ -18,6 +18,22 @@ export class ProductoImportDto {
   @IsNumber()
   precioVenta: number;
 
+  @IsNumber()
+  @IsOptional()
+  precioOferta?: number;
+
+  @IsNumber()
+  @IsOptional()
+  existencia?: number;
+
+  @IsDateString()
+  @IsOptional()
+  ofertaDesde?: string;
+
+  @IsDateString()
+  @IsOptional()
+  ofertaHasta?: string;
+
   @IsString()
   @IsOptional()
   categoria?: string;
@@ -1,6 +1,6 @@
 import {
   Controller, Get, Post, Body, Patch, Param, Delete, Query,
-  UseInterceptors, UploadedFile, UploadedFiles, BadRequestException
+  UseInterceptors, UploadedFile, UploadedFiles, BadRequestException, StreamableFile, ValidationPipe
 } from '@nestjs/common';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
@@ -8,6 +8,7 @@ import { extname } from 'path';
 import { EmpresasService } from './empresas.service';
 import { CreateEmpresaDto } from './dto/create-empresa.dto';
 import { UpdateEmpresaDto } from './dto/update-empresa.dto';
+import { ExportProductosQueryDto } from './dto/export-productos-query.dto';
 import { Producto } from './schemas/producto.schema';
 
 // Multer configuration for file uploads
@@ -53,7 +54,7 @@ export class EmpresasController {
 
   @Get('public/:codigo')
   getPublicEmpresaByCodigo(@Param('codigo') codigo: string) {
-    return this.empresasService.findOneByCode(codigo);
+    return this.empresasService.findPublicCatalog(codigo);
   }
 
   // --- Rutas para Productos anidados ---
@@ -76,7 +77,11 @@ export class EmpresasController {
   async findAllProducts(
     @Param('empresaId') empresaId: string,
     @Query('categoria') categoria?: string,
+    @Query('q') q?: string,
   ) {
+    if (q?.trim()) {
+      return this.empresasService.searchProducts(empresaId, q, { categoria });
+    }
     if (categoria) {
       return this.empresasService.findProductsByCategory(empresaId, categoria);
     }
@@ -88,6 +93,20 @@ export class EmpresasController {
     return this.empresasService.findProductCategories(empresaId);
   }
 
+  // Debe declararse antes de ':empresaId/productos/:sku' para que "export" no se tome como SKU
+  @Get(':empresaId/productos/export')
+  async exportProductos(
+    @Param('empresaId') empresaId: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: ExportProductosQueryDto,
+  ) {
+    const archivo = await this.empresasService.exportProducts(empresaId, query);
+    return new StreamableFile(archivo.contenido, {
+      type: archivo.tipo,
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
+
   @Get(':empresaId/productos/:sku')
   async findProductBySku(
     @Param('empresaId') empresaId: string,
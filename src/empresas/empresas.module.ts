@@ -3,9 +3,15 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { EmpresasController } from './empresas.controller';
 import { EmpresasService } from './empresas.service';
 import { Empresa, EmpresaSchema } from './schemas/empresa.schema';
+import { Producto, ProductoSchema } from './schemas/producto.schema';
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: Empresa.name, schema: EmpresaSchema }])],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Empresa.name, schema: EmpresaSchema },
+      { name: Producto.name, schema: ProductoSchema },
+    ]),
+  ],
   controllers: [EmpresasController],
   providers: [EmpresasService],
   exports: [EmpresasService]
@@ -1,12 +1,39 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
 import { EmpresasService } from './empresas.service';
+import { Empresa } from './schemas/empresa.schema';
+import { Producto } from './schemas/producto.schema';
+import { StockInsuficienteException } from './exceptions/stock-insuficiente.exception';
+
+// Crea un query de mongoose que resuelve con el valor dado
+const mockExec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
 
 describe('EmpresasService', () => {
   let service: EmpresasService;
+  const empresaModel = {
+    findById: jest.fn(),
+    collection: { find: jest.fn(), updateOne: jest.fn() },
+  };
+  const productoModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    bulkWrite: jest.fn(),
+    countDocuments: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [EmpresasService],
+      providers: [
+        EmpresasService,
+        { provide: getModelToken(Empresa.name), useValue: empresaModel },
+        { provide: getModelToken(Producto.name), useValue: productoModel },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
     }).compile();
 
     service = module.get<EmpresasService>(EmpresasService);
@@ -15,4 +42,334 @@ describe('EmpresasService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('reserveStock', () => {
+    it('should decrement every line only when there is enough stock', async () => {
+      productoModel.updateOne.mockReturnValue(mockExec({ modifiedCount: 1 }));
+
+      await service.reserveStock('empresa1', [
+        { sku: 'PAN01', cantidad: 2 },
+        { sku: 'CAFE01', cantidad: 1, presentacion: '500g' },
+      ]);
+
+      expect(productoModel.updateOne).toHaveBeenNthCalledWith(
+        1,
+        { empresaId: 'empresa1', sku: 'PAN01', existencia: { $gte: 2 } },
+        { $inc: { existencia: -2 } },
+      );
+      expect(productoModel.updateOne).toHaveBeenNthCalledWith(
+        2,
+        {
+          empresaId: 'empresa1',
+          sku: 'CAFE01',
+          'presentacion.500g.existencia': { $gte: 1 },
+        },
+        { $inc: { 'presentacion.500g.existencia': -1 } },
+      );
+    });
+
+    it('should roll back applied lines and report the missing ones', async () => {
+      productoModel.updateOne
+        .mockReturnValueOnce(mockExec({ modifiedCount: 1 }))
+        .mockReturnValueOnce(mockExec({ modifiedCount: 0 }))
+        .mockReturnValue(mockExec({ modifiedCount: 1 }));
+      empresaModel.findById.mockReturnValue(mockExec({ _id: 'empresa1' }));
+      productoModel.findOne.mockReturnValue(
+        mockExec({ sku: 'CAFE01', existencia: 1 }),
+      );
+
+      const error = await service
+        .reserveStock('empresa1', [
+          { sku: 'PAN01', cantidad: 2 },
+          { sku: 'CAFE01', cantidad: 3 },
+        ])
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(StockInsuficienteException);
+      expect(error.faltantes).toEqual([
+        { sku: 'CAFE01', cantidad: 3, disponible: 1 },
+      ]);
+      expect(productoModel.updateOne).toHaveBeenLastCalledWith(
+        { empresaId: 'empresa1', sku: 'PAN01' },
+        { $inc: { existencia: 2 } },
+      );
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('should move embedded productos to their own collection without overwriting existing ones', async () => {
+      const empresaId = 'empresa1';
+      empresaModel.collection.find.mockReturnValue({
+        toArray: jest.fn().mockResolvedValue([
+          {
+            _id: empresaId,
+            productos: [{ _id: 'sub1', sku: 'PAN01', nombreCorto: 'Pan' }],
+          },
+        ]),
+      });
+      productoModel.bulkWrite.mockResolvedValue({ upsertedCount: 1 });
+
+      await service.onModuleInit();
+
+      expect(productoModel.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { empresaId, sku: 'PAN01' },
+            update: {
+              $setOnInsert: { sku: 'PAN01', nombreCorto: 'Pan', empresaId },
+            },
+            upsert: true,
+          },
+        },
+      ]);
+      expect(empresaModel.collection.updateOne).toHaveBeenCalledWith(
+        { _id: empresaId },
+        { $unset: { productos: '' } },
+      );
+    });
+  });
+
+  describe('productos', () => {
+    it('should report an unknown empresa before querying its products', async () => {
+      empresaModel.findById.mockReturnValue(mockExec(null));
+
+      await expect(service.findAllProducts('missing')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      await expect(
+        service.findProductBySku('missing', 'PAN01'),
+      ).rejects.toThrow('Empresa');
+      expect(productoModel.find).not.toHaveBeenCalled();
+      expect(productoModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should answer product updates with the empresa and its catalog', async () => {
+      empresaModel.findById.mockReturnValue(
+        mockExec({
+          _id: 'empresa1',
+          toObject: () => ({ _id: 'empresa1', nombre: 'Panadería' }),
+        }),
+      );
+      productoModel.findOneAndUpdate.mockReturnValue(
+        mockExec({ sku: 'PAN01', precioVenta: 1800 }),
+      );
+      productoModel.find.mockReturnValue(
+        mockExec([{ sku: 'PAN01', precioVenta: 1800 }]),
+      );
+
+      const resultado = await service.updateProduct('empresa1', 'PAN01', {
+        precioVenta: 1800,
+      });
+
+      expect(resultado).toEqual({
+        _id: 'empresa1',
+        nombre: 'Panadería',
+        productos: [{ sku: 'PAN01', precioVenta: 1800 }],
+      });
+    });
+  });
+
+  describe('findProductPage', () => {
+    it('should query only the requested page of products in stock, clamping the page number', async () => {
+      const query: any = {
+        exec: jest.fn().mockResolvedValue([{ sku: 'PAN21' }]),
+      };
+      ['sort', 'skip', 'limit'].forEach(
+        m => (query[m] = jest.fn().mockReturnValue(query)),
+      );
+      productoModel.find.mockReturnValue(query);
+      productoModel.countDocuments.mockReturnValue(mockExec(21));
+
+      const resultado = await service.findProductPage(
+        'empresa1',
+        7,
+        10,
+        'Panes',
+      );
+
+      const filter = {
+        empresaId: 'empresa1',
+        existencia: { $gt: 0 },
+        categoria: 'Panes',
+      };
+      expect(productoModel.countDocuments).toHaveBeenCalledWith(filter);
+      expect(productoModel.find).toHaveBeenCalledWith(filter);
+      expect(query.skip).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(10);
+      expect(resultado).toEqual({
+        productos: [{ sku: 'PAN21' }],
+        pagina: 3,
+        totalPaginas: 3,
+      });
+    });
+  });
+
+  describe('searchProducts', () => {
+    it('should score only the search fields and load the full products of the results', async () => {
+      const query: any = {
+        exec: jest.fn().mockResolvedValue([
+          { sku: 'ARZ01', nombreCorto: 'Arroz blanco', categoria: 'Granos' },
+          { sku: 'CAFE01', nombreCorto: 'Café', categoria: 'Bebidas' },
+          { sku: 'ARZ02', nombreCorto: 'Arroz', categoria: 'Granos' },
+        ]),
+      };
+      ['select', 'lean'].forEach(
+        m => (query[m] = jest.fn().mockReturnValue(query)),
+      );
+      productoModel.find.mockReturnValueOnce(query).mockReturnValueOnce(
+        mockExec([
+          { sku: 'ARZ01', precioVenta: 3000 },
+          { sku: 'ARZ02', precioVenta: 2500 },
+        ]),
+      );
+
+      const resultados = await service.searchProducts('empresa1', 'arroz', {
+        soloDisponibles: true,
+      });
+
+      expect(productoModel.find).toHaveBeenNthCalledWith(1, {
+        empresaId: 'empresa1',
+        existencia: { $gt: 0 },
+      });
+      expect(query.select).toHaveBeenCalledWith(
+        'sku nombreCorto nombreLargo descripcion categoria',
+      );
+      expect(productoModel.find).toHaveBeenNthCalledWith(2, {
+        empresaId: 'empresa1',
+        sku: { $in: ['ARZ02', 'ARZ01'] },
+      });
+      expect(resultados.map(p => p.sku)).toEqual(['ARZ02', 'ARZ01']);
+    });
+  });
+
+  describe('exportProducts', () => {
+    it('should produce a file that the import accepts back', async () => {
+      empresaModel.findById.mockReturnValue(
+        mockExec({ _id: 'empresa1', code: 'panaderia' }),
+      );
+      productoModel.find.mockReturnValue(
+        mockExec([
+          {
+            sku: 'CAFE01',
+            nombreCorto: 'Café',
+            precioVenta: 12000,
+            categoria: 'Bebidas',
+            fotos: ['cafe.jpg'],
+            presentacion: new Map([
+              ['500g', { precioventa: 12000, existencia: 4 }],
+            ]),
+          },
+        ]),
+      );
+      productoModel.bulkWrite.mockResolvedValue({
+        upsertedCount: 0,
+        matchedCount: 1,
+      });
+
+      const archivo = await service.exportProducts('empresa1', {
+        formato: 'csv',
+        presentacion: 'columnas',
+      });
+      expect(archivo.nombreArchivo).toBe('catalogo-panaderia.csv');
+      expect(productoModel.find).toHaveBeenCalledWith({
+        empresaId: 'empresa1',
+      });
+
+      await service.importProductsForEmpresa(
+        'empresa1',
+        archivo.contenido,
+        'excel',
+      );
+      const [[operations]] = productoModel.bulkWrite.mock.calls;
+      expect(operations[0].updateOne.update.$set).toEqual({
+        sku: 'CAFE01',
+        nombreCorto: 'Café',
+        precioVenta: 12000,
+        categoria: 'Bebidas',
+        fotos: ['cafe.jpg'],
+        presentacion: new Map([
+          [
+            '500g',
+            {
+              precioventa: 12000,
+              existencia: 4,
+              precioOferta: undefined,
+              ofertaDesde: undefined,
+              ofertaHasta: undefined,
+            },
+          ],
+        ]),
+      });
+    });
+
+    it('should keep leading zeros of SKUs through a CSV round trip', async () => {
+      empresaModel.findById.mockReturnValue(
+        mockExec({ _id: 'empresa1', code: 'panaderia' }),
+      );
+      productoModel.find.mockReturnValue(
+        mockExec([{ sku: '0012', nombreCorto: 'Pan', precioVenta: 1500 }]),
+      );
+      productoModel.bulkWrite.mockResolvedValue({
+        upsertedCount: 0,
+        matchedCount: 1,
+      });
+
+      const archivo = await service.exportProducts('empresa1', {
+        formato: 'csv',
+        presentacion: 'json',
+      });
+      await service.importProductsForEmpresa(
+        'empresa1',
+        archivo.contenido,
+        'excel',
+      );
+
+      const [[operations]] = productoModel.bulkWrite.mock.calls;
+      expect(operations[0].updateOne.filter).toEqual({
+        empresaId: 'empresa1',
+        sku: '0012',
+      });
+      expect(operations[0].updateOne.update.$set).toMatchObject({
+        sku: '0012',
+        nombreCorto: 'Pan',
+        precioVenta: 1500,
+      });
+    });
+
+    it('should carry the base stock of products without presentations through a round trip', async () => {
+      empresaModel.findById.mockReturnValue(
+        mockExec({ _id: 'empresa1', code: 'panaderia' }),
+      );
+      productoModel.find.mockReturnValue(
+        mockExec([
+          {
+            sku: 'PAN01',
+            nombreCorto: 'Pan',
+            precioVenta: 1500,
+            existencia: 7,
+          },
+        ]),
+      );
+      productoModel.bulkWrite.mockResolvedValue({
+        upsertedCount: 0,
+        matchedCount: 1,
+      });
+
+      const archivo = await service.exportProducts('empresa1', {
+        formato: 'csv',
+        presentacion: 'json',
+      });
+      await service.importProductsForEmpresa(
+        'empresa1',
+        archivo.contenido,
+        'excel',
+      );
+
+      const [[operations]] = productoModel.bulkWrite.mock.calls;
+      expect(operations[0].updateOne.update.$set).toMatchObject({
+        sku: 'PAN01',
+        existencia: 7,
+      });
+    });
+  });
 });
@@ -1,23 +1,68 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { AnyBulkWriteOperation, FilterQuery, Model } from 'mongoose';
 import { Empresa, EmpresaDocument } from './schemas/empresa.schema';
 import { CreateEmpresaDto } from './dto/create-empresa.dto';
 import { UpdateEmpresaDto } from './dto/update-empresa.dto';
-import { Producto } from './schemas/producto.schema';
+import {
+  PresentacionProducto,
+  Producto,
+  ProductoDocument,
+} from './schemas/producto.schema';
 import { ProductoImportDto } from './dto/producto-import.dto';
 import { ConfigService } from '@nestjs/config';
 import * as xlsx from 'xlsx';
 import { validate } from 'class-validator';
 import { plainToInstance } from 'class-transformer';
+import { StockItem, StockFaltante } from './interfaces/stock-item.interface';
+import { StockInsuficienteException } from './exceptions/stock-insuficiente.exception';
+import { buscarProductos } from './utils/busqueda.util';
+import {
+  columnasCatalogo,
+  productoAFila,
+  tiparFila,
+  unirColumnasPresentacion,
+} from './utils/catalogo.util';
+import { ExportProductosQueryDto } from './dto/export-productos-query.dto';
+
+export interface ArchivoExportado {
+  contenido: Buffer;
+  tipo: string;
+  nombreArchivo: string;
+}
+
+export interface OpcionesBusqueda {
+  categoria?: string;
+  soloDisponibles?: boolean; // Solo productos con existencia
+  limit?: number;
+}
+
+export interface PaginaProductos {
+  productos: ProductoDocument[];
+  pagina: number; // Ajustada al rango de páginas existentes
+  totalPaginas: number;
+}
 
 @Injectable()
-export class EmpresasService {
+export class EmpresasService implements OnModuleInit {
+  private readonly logger = new Logger(EmpresasService.name);
+
   constructor(
     @InjectModel(Empresa.name) private empresaModel: Model<EmpresaDocument>,
+    @InjectModel(Producto.name) private productoModel: Model<ProductoDocument>,
     private readonly configService: ConfigService,
   ) {}
 
+  async onModuleInit() {
+    await this.migrarProductosEmbebidos();
+  }
+
   // Métodos CRUD para Empresas (existentes)
   async create(createEmpresaDto: CreateEmpresaDto): Promise<EmpresaDocument> {
     const createdEmpresa = new this.empresaModel(createEmpresaDto);
@@ -36,6 +81,12 @@ export class EmpresasService {
     return empresa;
   }
 
+  // Catálogo público: la empresa con sus productos, con la misma forma que cuando estaban embebidos
+  async findPublicCatalog(code: string) {
+    const empresa = await this.findOneByCode(code);
+    return this.empresaConProductos(empresa);
+  }
+
   async findOneByCode(code: string): Promise<EmpresaDocument> {
     const empresa = await this.empresaModel.findOne({ code }).exec();
     if (!empresa) {
@@ -75,6 +126,7 @@ export class EmpresasService {
     if (!deletedEmpresa) {
         throw new NotFoundException(`Empresa con ID "${id}" no encontrada para eliminar.`);
     }
+    await this.productoModel.deleteMany({ empresaId: id }).exec();
     return deletedEmpresa;
   }
 
@@ -86,35 +138,32 @@ export class EmpresasService {
     return { urls };
   }
 
-  async addProductWithImages(empresaId: string, productoDto: any, files: Array<Express.Multer.File>): Promise<EmpresaDocument> {
+  async addProductWithImages(empresaId: string, productoDto: any, files: Array<Express.Multer.File>) {
     const empresa = await this.findOne(empresaId);
     const imagePaths = files.map(file => `/uploads/productos/${file.filename}`);
     
     const newProducto = {
       ...productoDto,
+      empresaId,
       fotos: imagePaths,
     };
 
     if (newProducto.presentacion) {
-      const presentacionMap = new Map();
-      for (const [name, pres] of Object.entries(newProducto.presentacion)) {
-        const newPres = {
-          precioventa: (pres as any).precioventa,
-          existencia: (pres as any).existencia ?? 0,
-        };
-        presentacionMap.set(name, newPres);
-      }
-      newProducto.presentacion = presentacionMap;
+      newProducto.presentacion = this.toPresentacionMap(
+        newProducto.presentacion,
+      );
     }
 
     // Validar si el SKU ya existe
-    const skuExists = empresa.productos.some(p => p.sku === newProducto.sku);
+    const skuExists = await this.productoModel
+      .exists({ empresaId, sku: newProducto.sku })
+      .exec();
     if (skuExists) {
       throw new BadRequestException(`El producto con SKU "${newProducto.sku}" ya existe en esta empresa.`);
     }
 
-    empresa.productos.push(newProducto as Producto);
-    return empresa.save();
+    await new this.productoModel(newProducto).save();
+    return this.empresaConProductos(empresa);
   }
 
   async importProductsForEmpresa(empresaId: string, fileBuffer: Buffer, fileType: 'excel' | 'json') {
@@ -124,10 +173,13 @@ export class EmpresasService {
       if (fileType === 'json') {
         productsData = JSON.parse(fileBuffer.toString('utf-8'));
       } else {
-        const workbook = xlsx.read(fileBuffer, { type: 'buffer' });
+        // raw: los CSV se leen como texto para no convertir SKUs como "0012" en números
+        const workbook = xlsx.read(fileBuffer, { type: 'buffer', raw: true });
         const sheetName = workbook.SheetNames[0];
         const worksheet = workbook.Sheets[sheetName];
-        productsData = xlsx.utils.sheet_to_json(worksheet);
+        productsData = xlsx.utils
+          .sheet_to_json<Record<string, any>>(worksheet)
+          .map(tiparFila);
       }
     } catch (error) {
       throw new BadRequestException('Error al leer o parsear el archivo. Asegúrate de que el formato es correcto y no está dañado.');
@@ -140,7 +192,8 @@ export class EmpresasService {
     const validationErrors = [];
     const validProducts: ProductoImportDto[] = [];
 
-    for (const item of productsData) {
+    for (const fila of productsData) {
+      const item = unirColumnasPresentacion(fila);
       const productDto = plainToInstance(ProductoImportDto, item);
       const errors = await validate(productDto);
 
@@ -169,57 +222,141 @@ export class EmpresasService {
       });
     }
 
-    const empresa = await this.findOne(empresaId);
-    const existingSkus = new Map(empresa.productos.map(p => [p.sku, p]));
-    let updatedCount = 0;
-    let createdCount = 0;
+    await this.findOne(empresaId);
+    const operations: AnyBulkWriteOperation<ProductoDocument>[] = [];
 
     for (const productDto of validProducts) {
-      const { foto1, foto2, foto3, foto4, foto5, presentacion, ...productData } = productDto;
+      const {
+        foto1,
+        foto2,
+        foto3,
+        foto4,
+        foto5,
+        presentacion,
+        ofertaDesde,
+        ofertaHasta,
+        ...productData
+      } = productDto;
       const fotos = [foto1, foto2, foto3, foto4, foto5].filter(Boolean);
       const productWithFotos: Partial<Producto> = { ...productData, fotos };
+      if (ofertaDesde) productWithFotos.ofertaDesde = new Date(ofertaDesde);
+      if (ofertaHasta) productWithFotos.ofertaHasta = new Date(ofertaHasta);
 
       if (presentacion) {
         try {
           const presentacionObj = JSON.parse(presentacion);
-          const presentacionMap = new Map();
-          for (const [name, pres] of Object.entries(presentacionObj)) {
-            const newPres = {
-              precioventa: (pres as any).precioventa,
-              existencia: (pres as any).existencia ?? 0,
-            };
-            presentacionMap.set(name, newPres);
-          }
-          productWithFotos.presentacion = presentacionMap;
+          productWithFotos.presentacion =
+            this.toPresentacionMap(presentacionObj);
         } catch (e) {
           // This should not happen as we validated it before
         }
       }
 
-      if (existingSkus.has(productDto.sku)) {
-        // Actualizar producto existente
-        const existingProduct = existingSkus.get(productDto.sku);
-        Object.assign(existingProduct, productWithFotos);
-        updatedCount++;
-      } else {
-        // Agregar nuevo producto
-        empresa.productos.push(productWithFotos as Producto);
-        createdCount++;
-      }
+      // Crea el producto o actualiza el existente con el mismo SKU
+      operations.push({
+        updateOne: {
+          filter: { empresaId, sku: productDto.sku },
+          update: { $set: productWithFotos },
+          upsert: true,
+        },
+      });
     }
 
-    await empresa.save();
+    const result = await this.productoModel.bulkWrite(operations);
 
     return {
-      created: createdCount,
-      updated: updatedCount,
+      created: result.upsertedCount,
+      updated: result.matchedCount,
       errors: [],
     };
   }
 
-  async findAllProducts(empresaId: string): Promise<Producto[]> {
+  /**
+   * Exporta el catálogo con las columnas de la importación, para editarlo en una hoja
+   * de cálculo y volver a subirlo con importProductsForEmpresa.
+   */
+  async exportProducts(
+    empresaId: string,
+    query: ExportProductosQueryDto,
+  ): Promise<ArchivoExportado> {
     const empresa = await this.findOne(empresaId);
-    return empresa.productos;
+    const productos = query.categoria
+      ? await this.findProductsByCategory(empresaId, query.categoria)
+      : await this.findAllProducts(empresaId);
+    const filas = productos.map(p => productoAFila(p, query.presentacion));
+    const nombre = `catalogo-${empresa.code}`;
+
+    if (query.formato === 'json') {
+      return {
+        contenido: Buffer.from(JSON.stringify(filas, null, 2)),
+        tipo: 'application/json',
+        nombreArchivo: `${nombre}.json`,
+      };
+    }
+
+    const hoja = xlsx.utils.json_to_sheet(filas, {
+      header: columnasCatalogo(filas),
+    });
+    if (query.formato === 'csv') {
+      // El BOM hace que Excel abra el CSV como UTF-8 y respete las tildes
+      return {
+        contenido: Buffer.from(`\ufeff${xlsx.utils.sheet_to_csv(hoja)}`),
+        tipo: 'text/csv; charset=utf-8',
+        nombreArchivo: `${nombre}.csv`,
+      };
+    }
+    const libro = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(libro, hoja, 'Productos');
+    return {
+      contenido: xlsx.write(libro, { type: 'buffer', bookType: 'xlsx' }),
+      tipo: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      nombreArchivo: `${nombre}.xlsx`,
+    };
+  }
+
+  async findAllProducts(empresaId: string): Promise<ProductoDocument[]> {
+    await this.findOne(empresaId);
+    return this.productoModel.find({ empresaId }).exec();
+  }
+
+  /**
+   * Busca en el catálogo de la empresa tolerando tildes, mayúsculas y errores de tipeo.
+   * El puntaje se calcula en memoria leyendo solo los campos de búsqueda; los productos
+   * completos se cargan únicamente para los resultados devueltos.
+   */
+  async searchProducts(
+    empresaId: string,
+    q: string,
+    { categoria, soloDisponibles = false, limit = 20 }: OpcionesBusqueda = {},
+  ): Promise<ProductoDocument[]> {
+    const filter: FilterQuery<ProductoDocument> = {
+      empresaId,
+      ...(categoria && { categoria }),
+      ...(soloDisponibles && { existencia: { $gt: 0 } }),
+    };
+    const candidatos = await this.productoModel
+      .find(filter)
+      .select('sku nombreCorto nombreLargo descripcion categoria')
+      .lean()
+      .exec();
+    const skus = buscarProductos(candidatos, q)
+      .slice(0, limit)
+      .map(p => p.sku);
+    if (skus.length === 0) {
+      return [];
+    }
+
+    const productos = await this.findProductsBySkus(empresaId, skus);
+    return skus
+      .map(sku => productos.find(p => p.sku === sku))
+      .filter((p): p is ProductoDocument => !!p);
+  }
+
+  async findProductsBySkus(
+    empresaId: string,
+    skus: string[],
+  ): Promise<ProductoDocument[]> {
+    return this.productoModel.find({ empresaId, sku: { $in: skus } }).exec();
   }
 
   async findProductCategories(empresaId: string): Promise<string[]> {
@@ -227,96 +364,217 @@ export class EmpresasService {
     return empresa.categorias || [];
   }
 
-  async findProductsByCategory(empresaId: string, categoria: string): Promise<Producto[]> {
-    const empresa = await this.findOne(empresaId);
-    return empresa.productos.filter(p => p.categoria === categoria);
+  // Página de los productos con existencia de la empresa, o de una de sus categorías
+  async findProductPage(
+    empresaId: string,
+    pagina: number,
+    porPagina: number,
+    categoria?: string,
+  ): Promise<PaginaProductos> {
+    const filter: FilterQuery<ProductoDocument> = {
+      empresaId,
+      existencia: { $gt: 0 },
+      ...(categoria && { categoria }),
+    };
+    const total = await this.productoModel.countDocuments(filter).exec();
+    const totalPaginas = Math.max(1, Math.ceil(total / porPagina));
+    const paginaActual = Math.min(Math.max(pagina, 1), totalPaginas);
+    const productos = await this.productoModel
+      .find(filter)
+      .sort({ _id: 1 })
+      .skip((paginaActual - 1) * porPagina)
+      .limit(porPagina)
+      .exec();
+    return { productos, pagina: paginaActual, totalPaginas };
   }
 
-  async findProductBySku(empresaId: string, sku: string): Promise<Producto> {
-    const empresa = await this.findOne(empresaId);
-    const producto = empresa.productos.find(p => p.sku === sku);
+  async findProductsByCategory(
+    empresaId: string,
+    categoria: string,
+  ): Promise<ProductoDocument[]> {
+    await this.findOne(empresaId);
+    return this.productoModel.find({ empresaId, categoria }).exec();
+  }
+
+  async findProductBySku(
+    empresaId: string,
+    sku: string,
+  ): Promise<ProductoDocument> {
+    await this.findOne(empresaId);
+    const producto = await this.productoModel
+      .findOne({ empresaId, sku })
+      .exec();
     if (!producto) {
       throw new NotFoundException(`Producto con SKU "${sku}" no encontrado en la empresa.`);
     }
     return producto;
   }
 
-  async updateProduct(empresaId: string, sku: string, updateDto: Partial<Producto>): Promise<EmpresaDocument> {
+  async updateProduct(
+    empresaId: string,
+    sku: string,
+    updateDto: Partial<Producto>,
+  ) {
     const empresa = await this.findOne(empresaId);
-    const productIndex = empresa.productos.findIndex(p => p.sku === sku);
+    // Evitar que se actualice el sku o la empresa si se pasan accidentalmente
+    const { sku: newSku, empresaId: newEmpresaId, ...updateData } = updateDto;
 
-    if (productIndex === -1) {
-      throw new NotFoundException(`Producto con SKU "${sku}" no encontrado para actualizar.`);
-    }
-
-    // Evitar que se actualice el sku si se pasa accidentalmente
-    const { sku: newSku, ...updateData } = updateDto;
-    
     if (updateData.presentacion) {
-      const presentacionMap = new Map();
-      for (const [name, pres] of Object.entries(updateData.presentacion)) {
-        const newPres = {
-          precioventa: (pres as any).precioventa,
-          existencia: (pres as any).existencia ?? 0,
-        };
-        presentacionMap.set(name, newPres);
-      }
-      updateData.presentacion = presentacionMap;
+      updateData.presentacion = this.toPresentacionMap(updateData.presentacion);
     }
 
-    const product = empresa.productos[productIndex];
-    Object.assign(product, updateData);
-    
-    empresa.markModified('productos');
-    return empresa.save();
+    const producto = await this.productoModel
+      .findOneAndUpdate(
+        { empresaId, sku },
+        { $set: updateData },
+        { new: true, runValidators: true },
+      )
+      .exec();
+    if (!producto) {
+      throw new NotFoundException(
+        `Producto con SKU "${sku}" no encontrado para actualizar.`,
+      );
+    }
+    return this.empresaConProductos(empresa);
   }
 
-  async removeProduct(empresaId: string, sku: string): Promise<EmpresaDocument> {
+  async removeProduct(empresaId: string, sku: string) {
     const empresa = await this.findOne(empresaId);
-    const initialLength = empresa.productos.length;
-    
-    empresa.productos = empresa.productos.filter(p => p.sku !== sku);
-
-    if (empresa.productos.length === initialLength) {
+    const producto = await this.productoModel
+      .findOneAndDelete({ empresaId, sku })
+      .exec();
+    if (!producto) {
       throw new NotFoundException(`Producto con SKU "${sku}" no encontrado para eliminar.`);
     }
-    
-    return empresa.save();
+    return this.empresaConProductos(empresa);
   }
 
-  async decreaseStock(empresaId: string, sku: string, quantity: number, presentacionName?: string): Promise<void> {
-    const empresa = await this.findOne(empresaId);
-    const productIndex = empresa.productos.findIndex(p => p.sku === sku);
+  /**
+   * Descuenta de forma atómica el stock de cada línea. Cada decremento solo se aplica
+   * si hay existencias suficientes; si alguna línea falla se revierten las ya aplicadas
+   * y se lanza StockInsuficienteException con todas las líneas faltantes.
+   */
+  async reserveStock(empresaId: string, items: StockItem[]): Promise<void> {
+    const reservados: StockItem[] = [];
+    const faltantes: StockFaltante[] = [];
+
+    for (const item of items) {
+      const stockPath = item.presentacion
+        ? `presentacion.${item.presentacion}.existencia`
+        : 'existencia';
+      const result = await this.productoModel
+        .updateOne(
+          { empresaId, sku: item.sku, [stockPath]: { $gte: item.cantidad } },
+          { $inc: { [stockPath]: -item.cantidad } },
+        )
+        .exec();
+
+      if (result.modifiedCount === 1) {
+        reservados.push(item);
+      } else {
+        faltantes.push({
+          ...item,
+          disponible: await this.getAvailableStock(empresaId, item),
+        });
+      }
+    }
 
-    if (productIndex === -1) {
-      throw new NotFoundException(`Producto con SKU "${sku}" no encontrado para actualizar stock.`);
+    if (faltantes.length > 0) {
+      await this.releaseStock(empresaId, reservados);
+      throw new StockInsuficienteException(faltantes);
     }
+  }
 
-    const product = empresa.productos[productIndex];
+  async releaseStock(empresaId: string, items: StockItem[]): Promise<void> {
+    for (const item of items) {
+      const stockPath = item.presentacion
+        ? `presentacion.${item.presentacion}.existencia`
+        : 'existencia';
+      await this.productoModel
+        .updateOne(
+          { empresaId, sku: item.sku },
+          { $inc: { [stockPath]: item.cantidad } },
+        )
+        .exec();
+    }
+  }
 
-    if (presentacionName) {
-      const presentacion = product.presentacion?.get(presentacionName);
-      if (presentacion) {
-        if (presentacion.existencia < quantity) {
-          console.warn(`Stock issue: Presentation "${presentacionName}" for product ${sku} has stock ${presentacion.existencia}, but order is for ${quantity}. Setting stock to 0.`);
-          presentacion.existencia = 0;
-        } else {
-          presentacion.existencia -= quantity;
-        }
-      } else {
-        console.error(`Presentation "${presentacionName}" not found for product ${sku} during stock decrease.`);
-        return; 
-      }
-    } else {
-      if (product.existencia < quantity) {
-          console.warn(`Stock issue: Product ${sku} has stock ${product.existencia}, but order is for ${quantity}. Setting stock to 0.`);
-          product.existencia = 0;
-      } else {
-          product.existencia -= quantity;
+  private async getAvailableStock(
+    empresaId: string,
+    item: StockItem,
+  ): Promise<number> {
+    try {
+      const producto = await this.findProductBySku(empresaId, item.sku);
+      if (item.presentacion) {
+        return producto.presentacion?.get(item.presentacion)?.existencia ?? 0;
       }
+      return producto.existencia ?? 0;
+    } catch (error) {
+      return 0;
     }
-    
-    empresa.markModified('productos');
-    await empresa.save();
   }
-}
\ No newline at end of file
+
+  // La empresa con su catálogo: la forma en que la API devolvía los productos
+  // cuando iban embebidos, y que el frontend sigue esperando
+  private async empresaConProductos(empresa: EmpresaDocument) {
+    const productos = await this.productoModel
+      .find({ empresaId: empresa._id })
+      .exec();
+    return { ...empresa.toObject(), productos };
+  }
+
+  /**
+   * Mueve los productos que aún estén embebidos en `empresas.productos` (esquema anterior)
+   * a su propia colección y los quita de la empresa. Es idempotente: si un SKU ya existe
+   * en la colección se conserva la versión de la colección.
+   */
+  private async migrarProductosEmbebidos() {
+    const pendientes = await this.empresaModel.collection
+      .find(
+        { 'productos.0': { $exists: true } },
+        { projection: { productos: 1 } },
+      )
+      .toArray();
+
+    for (const empresa of pendientes) {
+      const productos: any[] = empresa.productos;
+      const operations: AnyBulkWriteOperation<ProductoDocument>[] =
+        productos.map(({ _id, ...producto }) => ({
+          updateOne: {
+            filter: { empresaId: empresa._id, sku: producto.sku },
+            update: { $setOnInsert: { ...producto, empresaId: empresa._id } },
+            upsert: true,
+          },
+        }));
+      const result = await this.productoModel.bulkWrite(operations);
+      await this.empresaModel.collection.updateOne(
+        { _id: empresa._id },
+        { $unset: { productos: '' } },
+      );
+      this.logger.log(
+        `Migrated ${result.upsertedCount} embedded products of empresa ${empresa._id} to the productos collection.`,
+      );
+    }
+  }
+
+  // Normaliza las presentaciones recibidas como objeto plano al Map del esquema
+  private toPresentacionMap(
+    presentacion: Record<string, any> | Map<string, any>,
+  ): Map<string, PresentacionProducto> {
+    const presentacionMap = new Map<string, PresentacionProducto>();
+    const entries =
+      presentacion instanceof Map
+        ? presentacion.entries()
+        : Object.entries(presentacion);
+    for (const [name, pres] of entries) {
+      presentacionMap.set(name, {
+        precioventa: pres.precioventa,
+        existencia: pres.existencia ?? 0,
+        precioOferta: pres.precioOferta,
+        ofertaDesde: pres.ofertaDesde,
+        ofertaHasta: pres.ofertaHasta,
+      });
+    }
+    return presentacionMap;
+  }
+}
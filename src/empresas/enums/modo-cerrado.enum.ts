@@ -0,0 +1,5 @@
+// Qué hace el bot con los pedidos que llegan fuera del horario de atención
+export enum ModoCerrado {
+  BLOQUEAR = 'bloquear', // No se pueden finalizar pedidos hasta que abra
+  PROGRAMAR = 'programar', // Se aceptan y se le avisan a la empresa al abrir
+}
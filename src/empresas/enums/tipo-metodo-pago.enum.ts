@@ -0,0 +1,5 @@
+export enum TipoMetodoPago {
+  EFECTIVO = 'efectivo', // Contra entrega
+  TRANSFERENCIA = 'transferencia',
+  BILLETERA = 'billetera', // Nequi, Daviplata, Pago Móvil, etc.
+}
@@ -0,0 +1,11 @@
+import { ConflictException } from '@nestjs/common';
+import { StockFaltante } from '../interfaces/stock-item.interface';
+
+export class StockInsuficienteException extends ConflictException {
+  constructor(public readonly faltantes: StockFaltante[]) {
+    super({
+      message: 'No hay stock suficiente para algunos productos del pedido.',
+      faltantes,
+    });
+  }
+}
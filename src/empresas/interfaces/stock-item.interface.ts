@@ -0,0 +1,11 @@
+// Línea de pedido que afecta el inventario de un producto o de una de sus presentaciones
+export interface StockItem {
+  sku: string;
+  cantidad: number;
+  presentacion?: string;
+  nombre?: string;
+}
+
+export interface StockFaltante extends StockItem {
+  disponible: number;
+}
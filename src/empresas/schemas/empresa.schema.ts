@@ -1,12 +1,132 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
-import { Producto, ProductoSchema } from './producto.schema';
 import { EmpresaTipo } from '../enums/empresa-tipo.enum';
 import { PaisCodigo } from '../enums/pais-codigo.enum';
 import { TipoWebPg } from '../enums/tipo-web-pg.enum';
+import { TipoMetodoPago } from '../enums/tipo-metodo-pago.enum';
+import { ModoCerrado } from '../enums/modo-cerrado.enum';
 
 export type EmpresaDocument = Empresa & Document;
 
+@Schema({ _id: false })
+export class RangoEnvio {
+  @Prop({ required: true })
+  hastaKm: number;
+
+  @Prop({ required: true })
+  costo: number;
+}
+const RangoEnvioSchema = SchemaFactory.createForClass(RangoEnvio);
+
+// Reglas de cobro del domicilio: tarifa fija o por rangos de distancia, con umbral opcional de envío gratis
+@Schema({ _id: false })
+export class TarifaEnvio {
+  @Prop({ type: String, enum: ['fija', 'distancia'], default: 'fija' })
+  tipo: 'fija' | 'distancia';
+
+  @Prop({ type: Number, default: 0 })
+  costoFijo: number;
+
+  @Prop({ type: [RangoEnvioSchema], default: [] })
+  rangos: RangoEnvio[];
+
+  @Prop({ type: Number })
+  envioGratisDesde?: number;
+}
+const TarifaEnvioSchema = SchemaFactory.createForClass(TarifaEnvio);
+
+// Impuesto a las ventas; sin `nombre` o `tasa` se usan los del país (PAIS_CONFIG)
+@Schema({ _id: false })
+export class ConfigImpuesto {
+  @Prop({ type: Boolean, default: false })
+  aplica: boolean;
+
+  @Prop()
+  nombre?: string;
+
+  @Prop({ type: Number })
+  tasa?: number; // Porcentaje
+
+  @Prop({ type: Boolean, default: true })
+  preciosIncluyenImpuesto: boolean;
+}
+const ConfigImpuestoSchema = SchemaFactory.createForClass(ConfigImpuesto);
+
+// Medio de pago aceptado; `detalles` lleva los datos de la cuenta que se le envían al cliente
+@Schema({ _id: false })
+export class MetodoPago {
+  @Prop({ required: true, type: String, enum: Object.values(TipoMetodoPago) })
+  tipo: TipoMetodoPago;
+
+  @Prop({ required: true })
+  nombre: string;
+
+  @Prop()
+  detalles?: string;
+
+  @Prop({ type: Boolean, default: true })
+  activo: boolean;
+}
+const MetodoPagoSchema = SchemaFactory.createForClass(MetodoPago);
+
+// Condiciones que debe cumplir el carrito antes de tomar los datos de entrega
+@Schema({ _id: false })
+export class ReglasPedido {
+  // Subtotal de productos mínimo, antes de envío y descuentos
+  @Prop({ type: Number })
+  montoMinimo?: number;
+
+  // Unidades máximas de un mismo SKU, sumando todas sus presentaciones
+  @Prop({ type: Number })
+  cantidadMaximaPorProducto?: number;
+
+  // Días de la semana en que se entrega (0 = domingo ... 6 = sábado); vacío = todos
+  @Prop({ type: [Number], default: [] })
+  diasEntrega: number[];
+}
+const ReglasPedidoSchema = SchemaFactory.createForClass(ReglasPedido);
+
+// Franja de atención de un día de la semana, en hora local ('HH:mm', `cierra` admite '24:00').
+// Si `cierra` no es posterior a `abre`, la franja termina al día siguiente.
+@Schema({ _id: false })
+export class TramoHorario {
+  @Prop({ required: true, min: 0, max: 6 })
+  dia: number; // 0 = domingo ... 6 = sábado
+
+  @Prop({ required: true })
+  abre: string;
+
+  @Prop({ required: true })
+  cierra: string;
+}
+const TramoHorarioSchema = SchemaFactory.createForClass(TramoHorario);
+
+// Sin tramos configurados la tienda se considera siempre abierta
+@Schema({ _id: false })
+export class HorarioEmpresa {
+  // Zona IANA; por defecto la del país (PAIS_CONFIG)
+  @Prop()
+  zonaHoraria?: string;
+
+  @Prop({ type: [TramoHorarioSchema], default: [] })
+  tramos: TramoHorario[];
+
+  // Fechas locales 'YYYY-MM-DD' en las que no se atiende
+  @Prop({ type: [String], default: [] })
+  feriados: string[];
+
+  @Prop()
+  mensajeCerrado?: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ModoCerrado),
+    default: ModoCerrado.PROGRAMAR,
+  })
+  modoCerrado: ModoCerrado;
+}
+const HorarioEmpresaSchema = SchemaFactory.createForClass(HorarioEmpresa);
+
 @Schema()
 export class Empresa {
   @Prop({ required: true, unique: true })
@@ -27,6 +147,16 @@ export class Empresa {
   @Prop({ required: true, type: String, enum: Object.values(PaisCodigo) })
   codigoPais: PaisCodigo;
 
+  // Moneda (ISO 4217) y locale propios; por defecto los del país
+  @Prop()
+  moneda?: string;
+
+  @Prop()
+  locale?: string;
+
+  @Prop({ type: ConfigImpuestoSchema })
+  impuestos?: ConfigImpuesto;
+
   @Prop()
   telefono: string;
 
@@ -45,9 +175,23 @@ export class Empresa {
     coordinates: number[];
   };
 
+  // Radio máximo de entrega en kilómetros desde geoUbicacion
   @Prop({ type: Number })
   areaInfluencia: number;
 
+  @Prop({ type: TarifaEnvioSchema })
+  tarifaEnvio?: TarifaEnvio;
+
+  // Sin métodos configurados no se pregunta la forma de pago
+  @Prop({ type: [MetodoPagoSchema], default: [] })
+  metodosPago: MetodoPago[];
+
+  @Prop({ type: ReglasPedidoSchema })
+  reglasPedido?: ReglasPedido;
+
+  @Prop({ type: HorarioEmpresaSchema })
+  horario?: HorarioEmpresa;
+
   @Prop({ type: Boolean, default: false })
   opcionIA: boolean;
 
@@ -63,8 +207,13 @@ export class Empresa {
   @Prop([String])
   categorias: string[];
 
-  @Prop({ type: [ProductoSchema] })
-  productos: Producto[];
+  // Minutos durante los cuales el cliente puede cancelar su pedido por WhatsApp (0 lo deshabilita)
+  @Prop({ type: Number, default: 15 })
+  minutosCancelacionCliente: number;
+
+  // Productos por mensaje en los listados del chat; el resto se navega con "ver más"
+  @Prop({ type: Number, default: 10 })
+  productosPorPagina: number;
 }
 
 export const EmpresaSchema = SchemaFactory.createForClass(Empresa);
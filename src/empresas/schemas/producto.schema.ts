@@ -1,7 +1,22 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
 
-@Schema()
+export type ProductoDocument = Producto & Document;
+
+export interface PresentacionProducto {
+  precioventa: number;
+  existencia: number;
+  precioOferta?: number;
+  ofertaDesde?: Date;
+  ofertaHasta?: Date;
+}
+
+// Colección propia (antes era un arreglo embebido en Empresa); el SKU es único por empresa
+@Schema({ timestamps: true })
 export class Producto {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Empresa', required: true })
+  empresaId: MongooseSchema.Types.ObjectId;
+
   @Prop({ required: true })
   sku: string;
 
@@ -17,6 +32,16 @@ export class Producto {
   @Prop({ required: true })
   precioVenta: number;
 
+  // Precio promocional; sin fechas la oferta no vence
+  @Prop({ type: Number })
+  precioOferta?: number;
+
+  @Prop()
+  ofertaDesde?: Date;
+
+  @Prop()
+  ofertaHasta?: Date;
+
   @Prop({ required: true, default: 0 })
   existencia: number;
 
@@ -25,9 +50,12 @@ export class Producto {
     of: {
       precioventa: { type: Number, required: true },
       existencia: { type: Number, required: true, default: 0 },
+      precioOferta: { type: Number },
+      ofertaDesde: { type: Date },
+      ofertaHasta: { type: Date },
     },
   })
-  presentacion: Map<string, { precioventa: number; existencia: number }>;
+  presentacion: Map<string, PresentacionProducto>;
 
   @Prop()
   categoria: string;
@@ -36,4 +64,6 @@ export class Producto {
   fotos: string[];
 }
 
-export const ProductoSchema = SchemaFactory.createForClass(Producto);
\ No newline at end of file
+export const ProductoSchema = SchemaFactory.createForClass(Producto);
+ProductoSchema.index({ empresaId: 1, sku: 1 }, { unique: true });
+ProductoSchema.index({ empresaId: 1, categoria: 1 });
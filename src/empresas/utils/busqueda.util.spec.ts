@@ -0,0 +1,57 @@
+import {
+  buscarProductos,
+  distanciaLevenshtein,
+  normalizarTexto,
+} from './busqueda.util';
+
+describe('busqueda.util', () => {
+  const productos = [
+    {
+      nombreCorto: 'Café molido',
+      nombreLargo: 'Café de origen Huila',
+      descripcion: 'Tostión media',
+      categoria: 'Bebidas',
+    },
+    {
+      nombreCorto: 'Arroz blanco',
+      nombreLargo: 'Arroz blanco 500g',
+      descripcion: '',
+      categoria: 'Granos',
+    },
+    {
+      nombreCorto: 'Torta de café',
+      nombreLargo: '',
+      descripcion: 'Con arequipe',
+      categoria: 'Postres',
+    },
+  ];
+
+  it('should normalize accents, case and punctuation', () => {
+    expect(normalizarTexto('  Café MOLIDO!! ')).toBe('cafe molido');
+    expect(distanciaLevenshtein('arros', 'arroz')).toBe(1);
+  });
+
+  it('should rank name matches above matches in other fields', () => {
+    expect(buscarProductos(productos, 'CAFE').map(p => p.nombreCorto)).toEqual([
+      'Café molido',
+      'Torta de café',
+    ]);
+  });
+
+  it('should tolerate typos and match prefixes and categories', () => {
+    expect(buscarProductos(productos, 'arros').map(p => p.nombreCorto)).toEqual(
+      ['Arroz blanco'],
+    );
+    expect(buscarProductos(productos, 'beb').map(p => p.nombreCorto)).toEqual([
+      'Café molido',
+    ]);
+  });
+
+  it('should require every meaningful term to match', () => {
+    expect(
+      buscarProductos(productos, 'torta de arequipe').map(p => p.nombreCorto),
+    ).toEqual(['Torta de café']);
+    expect(buscarProductos(productos, 'arroz con leche')).toEqual([]);
+    expect(buscarProductos(productos, 'de')).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { Producto } from '../schemas/producto.schema';
+
+type ProductoBuscable = Pick<
+  Producto,
+  'nombreCorto' | 'nombreLargo' | 'descripcion' | 'categoria'
+>;
+
+// Campos en los que se busca y cuánto pesa una coincidencia en cada uno
+const CAMPOS_BUSQUEDA: [keyof ProductoBuscable, number][] = [
+  ['nombreCorto', 3],
+  ['categoria', 2],
+  ['nombreLargo', 2],
+  ['descripcion', 1],
+];
+
+// Palabras que no ayudan a distinguir productos ("arroz de coco")
+const PALABRAS_VACIAS = new Set([
+  'de',
+  'del',
+  'la',
+  'las',
+  'el',
+  'los',
+  'y',
+  'con',
+  'para',
+  'en',
+  'un',
+  'una',
+]);
+
+// Minúsculas, sin tildes ni signos: "Café Molido!" -> "cafe molido"
+export function normalizarTexto(texto: string): string {
+  return texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function distanciaLevenshtein(a: string, b: string): number {
+  let anterior = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const actual = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const costo = a[i - 1] === b[j - 1] ? 0 : 1;
+      actual[j] = Math.min(
+        anterior[j] + 1,
+        actual[j - 1] + 1,
+        anterior[j - 1] + costo,
+      );
+    }
+    anterior = actual;
+  }
+  return anterior[b.length];
+}
+
+// Errores de tipeo tolerados según el largo del término
+function tolerancia(termino: string): number {
+  if (termino.length <= 3) return 0;
+  return termino.length <= 6 ? 1 : 2;
+}
+
+// 1 si la palabra es igual al término, menos si solo empieza igual o se parece; 0 si no coincide
+function coincidencia(termino: string, palabra: string): number {
+  if (palabra === termino) return 1;
+  if (termino.length >= 2 && palabra.startsWith(termino)) return 0.8;
+  if (distanciaLevenshtein(termino, palabra) <= tolerancia(termino)) return 0.6;
+  return 0;
+}
+
+/**
+ * Filtra y ordena productos por relevancia para la consulta. Cada término (sin tildes,
+ * mayúsculas ni palabras vacías) debe coincidir con alguna palabra de los campos del
+ * producto, exacta, como prefijo o con pocos errores de tipeo.
+ */
+export function buscarProductos<T extends ProductoBuscable>(
+  productos: T[],
+  consulta: string,
+): T[] {
+  const terminos = normalizarTexto(consulta)
+    .split(' ')
+    .filter(t => t && !PALABRAS_VACIAS.has(t));
+  if (terminos.length === 0) {
+    return [];
+  }
+
+  const resultados: { producto: T; puntaje: number }[] = [];
+  for (const producto of productos) {
+    const campos = CAMPOS_BUSQUEDA.map(([campo, peso]) => ({
+      peso,
+      palabras: normalizarTexto(producto[campo] || '').split(' '),
+    }));
+
+    let puntaje = 0;
+    for (const termino of terminos) {
+      const mejor = Math.max(
+        ...campos.map(
+          ({ peso, palabras }) =>
+            peso * Math.max(...palabras.map(p => coincidencia(termino, p))),
+        ),
+      );
+      if (mejor === 0) {
+        puntaje = 0;
+        break;
+      }
+      puntaje += mejor;
+    }
+
+    if (puntaje > 0) {
+      resultados.push({ producto, puntaje });
+    }
+  }
+
+  return resultados
+    .sort(
+      (a, b) =>
+        b.puntaje - a.puntaje ||
+        a.producto.nombreCorto.localeCompare(b.producto.nombreCorto),
+    )
+    .map(r => r.producto);
+}
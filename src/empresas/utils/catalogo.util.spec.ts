@@ -0,0 +1,82 @@
+import {
+  columnasCatalogo,
+  productoAFila,
+  tiparFila,
+  unirColumnasPresentacion,
+} from './catalogo.util';
+import { Producto } from '../schemas/producto.schema';
+
+describe('catalogo.util', () => {
+  const producto = {
+    sku: 'PAN01',
+    nombreCorto: 'Pan',
+    precioVenta: 3000,
+    ofertaHasta: new Date('2026-01-31T00:00:00.000Z'),
+    fotos: ['a.jpg', 'b.jpg'],
+    presentacion: new Map([
+      ['Grande', { precioventa: 5000, existencia: 2 }],
+      ['Pequeño', { precioventa: 3000, existencia: 0, precioOferta: 2500 }],
+    ]),
+  } as unknown as Producto;
+
+  it('should export presentations as a single JSON column by default', () => {
+    expect(productoAFila(producto)).toEqual({
+      sku: 'PAN01',
+      nombreCorto: 'Pan',
+      precioVenta: 3000,
+      ofertaHasta: '2026-01-31T00:00:00.000Z',
+      foto1: 'a.jpg',
+      foto2: 'b.jpg',
+      presentacion:
+        '{"Grande":{"precioventa":5000,"existencia":2},"Pequeño":{"precioventa":3000,"existencia":0,"precioOferta":2500}}',
+    });
+  });
+
+  it('should export one column per presentation and list them after the import columns', () => {
+    const fila = productoAFila(producto, 'columnas');
+    expect(fila.presentacion).toBeUndefined();
+    expect(fila['presentacion:Grande']).toBe(
+      '{"precioventa":5000,"existencia":2}',
+    );
+    expect(columnasCatalogo([fila]).slice(-3)).toEqual([
+      'presentacion',
+      'presentacion:Grande',
+      'presentacion:Pequeño',
+    ]);
+  });
+
+  it('should merge presentation columns back into the presentacion JSON on import', () => {
+    const fila = unirColumnasPresentacion(productoAFila(producto, 'columnas'));
+    expect(Object.keys(fila).some(k => k.startsWith('presentacion:'))).toBe(
+      false,
+    );
+    expect(JSON.parse(fila.presentacion)).toEqual({
+      Grande: { precioventa: 5000, existencia: 2 },
+      Pequeño: { precioventa: 3000, existencia: 0, precioOferta: 2500 },
+    });
+    expect(
+      unirColumnasPresentacion({
+        sku: 'X',
+        'presentacion:Grande': 'no es json',
+      }).presentacion,
+    ).toBe('no es json');
+  });
+
+  it('should keep text columns as text and turn prices into numbers when typing an imported row', () => {
+    expect(
+      tiparFila({
+        sku: '0012',
+        nombreCorto: 'Pan',
+        precioVenta: '1500',
+        precioOferta: '',
+        categoria: 7,
+      }),
+    ).toEqual({
+      sku: '0012',
+      nombreCorto: 'Pan',
+      precioVenta: 1500,
+      categoria: '7',
+    });
+    expect(tiparFila({ sku: 12, precioVenta: 'mil' }).precioVenta).toBeNaN();
+  });
+});
@@ -0,0 +1,167 @@
+import { PresentacionProducto, Producto } from '../schemas/producto.schema';
+
+export type ModoPresentacion = 'json' | 'columnas';
+
+export type FilaCatalogo = Record<string, string | number>;
+
+// Columnas que acepta ProductoImportDto, en el orden en que se exportan
+export const COLUMNAS_CATALOGO = [
+  'sku',
+  'nombreCorto',
+  'nombreLargo',
+  'descripcion',
+  'precioVenta',
+  'precioOferta',
+  'ofertaDesde',
+  'ofertaHasta',
+  'existencia',
+  'categoria',
+  'foto1',
+  'foto2',
+  'foto3',
+  'foto4',
+  'foto5',
+  'presentacion',
+];
+
+// En el modo "columnas" cada presentación va en su propia columna "presentacion:<nombre>"
+export const PREFIJO_COLUMNA_PRESENTACION = 'presentacion:';
+
+// Columnas numéricas de ProductoImportDto; las demás se importan como texto
+const COLUMNAS_NUMERICAS = ['precioVenta', 'precioOferta', 'existencia'];
+
+/**
+ * Convierte un producto en una fila con el formato de importación. Las presentaciones
+ * se escriben como JSON (con precio, existencia y oferta) para no perder datos al reimportar.
+ */
+export function productoAFila(
+  producto: Producto,
+  modo: ModoPresentacion = 'json',
+): FilaCatalogo {
+  const fila: FilaCatalogo = {
+    sku: producto.sku,
+    nombreCorto: producto.nombreCorto,
+  };
+  if (producto.nombreLargo) fila.nombreLargo = producto.nombreLargo;
+  if (producto.descripcion) fila.descripcion = producto.descripcion;
+  fila.precioVenta = producto.precioVenta;
+  if (producto.precioOferta !== undefined && producto.precioOferta !== null)
+    fila.precioOferta = producto.precioOferta;
+  if (producto.ofertaDesde)
+    fila.ofertaDesde = new Date(producto.ofertaDesde).toISOString();
+  if (producto.ofertaHasta)
+    fila.ofertaHasta = new Date(producto.ofertaHasta).toISOString();
+  if (producto.existencia !== undefined && producto.existencia !== null)
+    fila.existencia = producto.existencia;
+  if (producto.categoria) fila.categoria = producto.categoria;
+  (producto.fotos || []).slice(0, 5).forEach((foto, index) => {
+    fila[`foto${index + 1}`] = foto;
+  });
+
+  // Los documentos traen un Map; los objetos planos (lean, toObject) un Record
+  const presentaciones: [string, PresentacionProducto][] =
+    !producto.presentacion
+      ? []
+      : producto.presentacion instanceof Map
+        ? [...producto.presentacion.entries()]
+        : Object.entries(
+            producto.presentacion as Record<string, PresentacionProducto>,
+          );
+  if (presentaciones.length > 0) {
+    if (modo === 'columnas') {
+      presentaciones.forEach(([nombre, pres]) => {
+        fila[`${PREFIJO_COLUMNA_PRESENTACION}${nombre}`] = JSON.stringify(
+          presentacionPlana(pres),
+        );
+      });
+    } else {
+      fila.presentacion = JSON.stringify(
+        Object.fromEntries(
+          presentaciones.map(([nombre, pres]) => [
+            nombre,
+            presentacionPlana(pres),
+          ]),
+        ),
+      );
+    }
+  }
+  return fila;
+}
+
+// Encabezados de la hoja: los de la importación más las columnas de presentación que aparezcan
+export function columnasCatalogo(filas: FilaCatalogo[]): string[] {
+  const columnasPresentacion = new Set<string>();
+  filas.forEach(fila => {
+    Object.keys(fila)
+      .filter(k => k.startsWith(PREFIJO_COLUMNA_PRESENTACION))
+      .forEach(k => columnasPresentacion.add(k));
+  });
+  return [...COLUMNAS_CATALOGO, ...[...columnasPresentacion].sort()];
+}
+
+/**
+ * Ajusta los tipos de una fila leída como texto de un CSV (o con celdas numéricas de Excel):
+ * precios y existencia pasan a número y el resto a texto, para conservar SKUs como "0012".
+ * Un valor de esas columnas que no es número queda como NaN para que la validación lo reporte.
+ */
+export function tiparFila(fila: Record<string, any>): Record<string, any> {
+  const tipada: Record<string, any> = {};
+  for (const [columna, valor] of Object.entries(fila)) {
+    if (valor === undefined || valor === null || String(valor).trim() === '')
+      continue;
+    if (COLUMNAS_NUMERICAS.includes(columna)) {
+      tipada[columna] =
+        typeof valor === 'number' ? valor : Number(String(valor).trim());
+    } else {
+      tipada[columna] = typeof valor === 'string' ? valor : String(valor);
+    }
+  }
+  return tipada;
+}
+
+/**
+ * Junta las columnas "presentacion:<nombre>" de una fila importada en la columna
+ * `presentacion` (JSON), que es la que valida ProductoImportDto; si vienen ambas, mandan
+ * las columnas. Una celda que no es JSON se deja tal cual para que la validación la reporte.
+ */
+export function unirColumnasPresentacion(
+  fila: Record<string, any>,
+): Record<string, any> {
+  const columnas = Object.keys(fila).filter(k =>
+    k.startsWith(PREFIJO_COLUMNA_PRESENTACION),
+  );
+  if (columnas.length === 0) return fila;
+
+  const resto = { ...fila };
+  const presentacion: Record<string, unknown> = {};
+  for (const columna of columnas) {
+    const valor = resto[columna];
+    delete resto[columna];
+    if (valor === undefined || valor === null || valor === '') continue;
+    try {
+      presentacion[columna.slice(PREFIJO_COLUMNA_PRESENTACION.length)] =
+        JSON.parse(String(valor));
+    } catch (e) {
+      return { ...resto, presentacion: String(valor) };
+    }
+  }
+  return Object.keys(presentacion).length > 0
+    ? { ...resto, presentacion: JSON.stringify(presentacion) }
+    : resto;
+}
+
+function presentacionPlana(
+  pres: PresentacionProducto,
+): Record<string, string | number> {
+  const plana: Record<string, string | number> = {
+    precioventa: pres.precioventa,
+    existencia: pres.existencia ?? 0,
+  };
+  if (pres.precioOferta !== undefined && pres.precioOferta !== null)
+    plana.precioOferta = pres.precioOferta;
+  if (pres.ofertaDesde)
+    plana.ofertaDesde = new Date(pres.ofertaDesde).toISOString();
+  if (pres.ofertaHasta)
+    plana.ofertaHasta = new Date(pres.ofertaHasta).toISOString();
+  return plana;
+}
@@ -0,0 +1,74 @@
+import { calcularEnvio, distanciaKm } from './envio.util';
+import { Empresa } from '../schemas/empresa.schema';
+
+describe('envio.util', () => {
+  // Tienda en Bogotá; el cliente está ~2.2 km al norte
+  const tienda = { type: 'Point', coordinates: [-74.0721, 4.711] };
+  const cliente = { type: 'Point', coordinates: [-74.0721, 4.731] };
+
+  const buildEmpresa = (overrides: Partial<Empresa> = {}) =>
+    ({ geoUbicacion: tienda, areaInfluencia: 5, ...overrides }) as Empresa;
+
+  it('should compute the distance between two points in km', () => {
+    expect(distanciaKm(tienda, cliente)).toBeCloseTo(2.22, 1);
+  });
+
+  it('should charge the flat fee when the customer location is unknown', () => {
+    const empresa = buildEmpresa({
+      tarifaEnvio: {
+        tipo: 'distancia',
+        costoFijo: 5000,
+        rangos: [{ hastaKm: 1, costo: 3000 }],
+      },
+    });
+
+    expect(calcularEnvio(empresa, { coordinates: [0, 0] }, 20000)).toEqual({
+      costo: 5000,
+      distanciaKm: undefined,
+      fueraDeArea: false,
+      gratis: false,
+    });
+  });
+
+  it('should pick the matching distance band', () => {
+    const empresa = buildEmpresa({
+      tarifaEnvio: {
+        tipo: 'distancia',
+        costoFijo: 0,
+        rangos: [
+          { hastaKm: 4, costo: 6000 },
+          { hastaKm: 2, costo: 3000 },
+        ],
+      },
+    });
+
+    const cotizacion = calcularEnvio(empresa, cliente, 20000);
+    expect(cotizacion.costo).toBe(6000);
+    expect(cotizacion.fueraDeArea).toBe(false);
+  });
+
+  it('should reject customers outside the area of influence', () => {
+    const empresa = buildEmpresa({
+      areaInfluencia: 1,
+      tarifaEnvio: { tipo: 'fija', costoFijo: 5000, rangos: [] },
+    });
+
+    expect(calcularEnvio(empresa, cliente, 20000).fueraDeArea).toBe(true);
+  });
+
+  it('should make delivery free above the threshold', () => {
+    const empresa = buildEmpresa({
+      tarifaEnvio: {
+        tipo: 'fija',
+        costoFijo: 5000,
+        rangos: [],
+        envioGratisDesde: 50000,
+      },
+    });
+
+    expect(calcularEnvio(empresa, cliente, 60000)).toMatchObject({
+      costo: 0,
+      gratis: true,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { Empresa } from '../schemas/empresa.schema';
+
+export interface GeoPoint {
+  type?: string;
+  coordinates: number[]; // [longitud, latitud]
+}
+
+export interface CotizacionEnvio {
+  costo: number;
+  distanciaKm?: number;
+  fueraDeArea: boolean;
+  gratis: boolean;
+}
+
+const RADIO_TIERRA_KM = 6371;
+
+// Los puntos se guardan con [0, 0] por defecto, lo que equivale a "sin ubicación"
+export function tieneUbicacion(punto?: GeoPoint): boolean {
+  return (
+    !!punto?.coordinates &&
+    punto.coordinates.length === 2 &&
+    (punto.coordinates[0] !== 0 || punto.coordinates[1] !== 0)
+  );
+}
+
+// Distancia en línea recta (fórmula de Haversine) entre dos puntos GeoJSON
+export function distanciaKm(origen: GeoPoint, destino: GeoPoint): number {
+  const [lng1, lat1] = origen.coordinates;
+  const [lng2, lat2] = destino.coordinates;
+  const toRad = (grados: number) => (grados * Math.PI) / 180;
+
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * RADIO_TIERRA_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Calcula el costo de envío según la tarifa de la empresa y la ubicación del cliente.
+ * Si alguna de las dos ubicaciones no se conoce, se cobra la tarifa fija y no se valida el área.
+ */
+export function calcularEnvio(
+  empresa: Empresa,
+  destino: GeoPoint | undefined,
+  subtotal: number,
+): CotizacionEnvio {
+  const tarifa = empresa.tarifaEnvio;
+  const distancia =
+    tieneUbicacion(empresa.geoUbicacion) && tieneUbicacion(destino)
+      ? distanciaKm(empresa.geoUbicacion, destino)
+      : undefined;
+
+  if (
+    distancia !== undefined &&
+    empresa.areaInfluencia > 0 &&
+    distancia > empresa.areaInfluencia
+  ) {
+    return {
+      costo: 0,
+      distanciaKm: distancia,
+      fueraDeArea: true,
+      gratis: false,
+    };
+  }
+
+  let costo = tarifa?.costoFijo ?? 0;
+  if (
+    tarifa?.tipo === 'distancia' &&
+    distancia !== undefined &&
+    tarifa.rangos?.length > 0
+  ) {
+    const rango = [...tarifa.rangos]
+      .sort((a, b) => a.hastaKm - b.hastaKm)
+      .find(r => distancia <= r.hastaKm);
+    if (!rango) {
+      return {
+        costo: 0,
+        distanciaKm: distancia,
+        fueraDeArea: true,
+        gratis: false,
+      };
+    }
+    costo = rango.costo;
+  }
+
+  const gratis =
+    tarifa?.envioGratisDesde > 0 && subtotal >= tarifa.envioGratisDesde;
+  return {
+    costo: gratis ? 0 : costo,
+    distanciaKm: distancia,
+    fueraDeArea: false,
+    gratis,
+  };
+}
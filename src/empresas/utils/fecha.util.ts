@@ -0,0 +1,117 @@
+import { Empresa } from '../schemas/empresa.schema';
+import { PAIS_CONFIG } from '../constants/pais-config.constants';
+
+const DIAS_SEMANA_EN = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Fecha y hora de pared de un instante en una zona horaria
+export interface HoraLocal {
+  fecha: string; // 'YYYY-MM-DD'
+  dia: number; // 0 = domingo
+  minutos: number; // Minutos desde la medianoche
+}
+
+// La zona del horario de la empresa, o si no la de su país
+export function getZonaHoraria(
+  empresa: Pick<Empresa, 'codigoPais'> & Partial<Pick<Empresa, 'horario'>>,
+): string {
+  return (
+    empresa.horario?.zonaHoraria ||
+    PAIS_CONFIG[empresa.codigoPais]?.zonaHoraria ||
+    'UTC'
+  );
+}
+
+export function horaLocal(fecha: Date, zonaHoraria: string): HoraLocal {
+  const partes: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: zonaHoraria,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })
+    .formatToParts(fecha)
+    .forEach(({ type, value }) => (partes[type] = value));
+
+  return {
+    fecha: `${partes.year}-${partes.month}-${partes.day}`,
+    dia: DIAS_SEMANA_EN.indexOf(partes.weekday),
+    minutos: Number(partes.hour) * 60 + Number(partes.minute),
+  };
+}
+
+// Suma días a una fecha local 'YYYY-MM-DD'
+export function sumarDias(fecha: string, dias: number): string {
+  const [anio, mes, dia] = fecha.split('-').map(Number);
+  return new Date(Date.UTC(anio, mes - 1, dia + dias))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Instante en que el reloj de la zona marca la fecha local y los minutos dados,
+// con el desfase vigente ese día (respeta el horario de verano)
+export function instanteLocal(
+  fecha: string,
+  minutos: number,
+  zonaHoraria: string,
+): Date {
+  const [anio, mes, dia] = fecha.split('-').map(Number);
+  const pared = Date.UTC(anio, mes - 1, dia) + minutos * 60000;
+  const desfase = (instante: number) => {
+    const local = horaLocal(new Date(instante), zonaHoraria);
+    const [a, m, d] = local.fecha.split('-').map(Number);
+    return Date.UTC(a, m - 1, d) + local.minutos * 60000 - instante;
+  };
+
+  // Se corrige dos veces por si el cambio de hora cae entre la primera estimación y el resultado
+  let instante = pared - desfase(pared);
+  instante = pared - desfase(instante);
+  return new Date(instante);
+}
+
+// Día de la semana (0 = domingo) de un instante en la zona horaria dada
+export function diaSemana(fecha: Date, zonaHoraria: string): number {
+  return horaLocal(fecha, zonaHoraria).dia;
+}
+
+// Ej: "jueves, 22 de octubre"
+export function formatFecha(
+  fecha: Date,
+  locale: string,
+  zonaHoraria: string,
+): string {
+  return fecha.toLocaleDateString(locale, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: zonaHoraria,
+  });
+}
+
+// Ej: "jueves, 22 de octubre, 8:00"
+export function formatFechaHora(
+  fecha: Date,
+  locale: string,
+  zonaHoraria: string,
+): string {
+  return fecha.toLocaleString(locale, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: zonaHoraria,
+  });
+}
+
+// Ej: "lunes" para 1
+export function nombreDiaSemana(dia: number, locale: string): string {
+  // 2023-01-01 fue domingo; se usa mediodía UTC para no cambiar de día en ninguna zona
+  return new Date(Date.UTC(2023, 0, 1 + dia, 12)).toLocaleDateString(locale, {
+    weekday: 'long',
+    timeZone: 'UTC',
+  });
+}
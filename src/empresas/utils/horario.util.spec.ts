@@ -0,0 +1,79 @@
+import { estaAbierta, proximaApertura } from './horario.util';
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+import { ModoCerrado } from '../enums/modo-cerrado.enum';
+
+describe('horario.util', () => {
+  // Lunes a viernes de 8:00 a 18:00, hora de Bogotá (UTC-5)
+  const empresa = {
+    codigoPais: PaisCodigo.COLOMBIA,
+    horario: {
+      tramos: [1, 2, 3, 4, 5].map(dia => ({
+        dia,
+        abre: '08:00',
+        cierra: '18:00',
+      })),
+      feriados: ['2024-06-03'],
+      modoCerrado: ModoCerrado.PROGRAMAR,
+    },
+  };
+
+  it('should always be open without configured hours', () => {
+    expect(
+      estaAbierta(
+        { codigoPais: PaisCodigo.COLOMBIA },
+        new Date('2024-06-02T08:00:00Z'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should check the hours in the empresa time zone', () => {
+    // Viernes 31 de mayo: 12:59 UTC son las 7:59 en Bogotá
+    expect(estaAbierta(empresa, new Date('2024-05-31T12:59:00Z'))).toBe(false);
+    expect(estaAbierta(empresa, new Date('2024-05-31T13:00:00Z'))).toBe(true);
+    expect(estaAbierta(empresa, new Date('2024-05-31T23:00:00Z'))).toBe(false);
+  });
+
+  it('should skip weekends and holidays to find the next opening', () => {
+    // Viernes 31 de mayo 20:00 en Bogotá; el lunes 3 de junio es feriado
+    const apertura = proximaApertura(empresa, new Date('2024-06-01T01:00:30Z'));
+
+    expect(apertura?.toISOString()).toBe('2024-06-04T13:00:00.000Z');
+    expect(estaAbierta(empresa, new Date('2024-06-03T15:00:00Z'))).toBe(false);
+  });
+
+  it('should keep a range that closes after midnight open until the next day', () => {
+    // Viernes de 18:00 a 02:00 en Bogotá
+    const nocturna = {
+      codigoPais: PaisCodigo.COLOMBIA,
+      horario: {
+        ...empresa.horario,
+        tramos: [{ dia: 5, abre: '18:00', cierra: '02:00' }],
+      },
+    };
+
+    expect(estaAbierta(nocturna, new Date('2024-05-31T22:59:00Z'))).toBe(false);
+    expect(estaAbierta(nocturna, new Date('2024-06-01T04:00:00Z'))).toBe(true);
+    expect(estaAbierta(nocturna, new Date('2024-06-01T06:59:00Z'))).toBe(true);
+    expect(estaAbierta(nocturna, new Date('2024-06-01T07:00:00Z'))).toBe(false);
+  });
+
+  it('should use the offset of the opening date when daylight saving time changes', () => {
+    // Lunes de 9:00 a 17:00 en Nueva York; el horario de verano empieza el domingo 10 de marzo
+    const conVerano = {
+      codigoPais: PaisCodigo.COLOMBIA,
+      horario: {
+        ...empresa.horario,
+        zonaHoraria: 'America/New_York',
+        tramos: [{ dia: 1, abre: '09:00', cierra: '17:00' }],
+      },
+    };
+
+    expect(
+      proximaApertura(
+        conVerano,
+        new Date('2024-03-08T23:00:00Z'),
+      )?.toISOString(),
+    ).toBe('2024-03-11T13:00:00.000Z');
+    expect(estaAbierta(conVerano, new Date('2024-03-11T13:00:00Z'))).toBe(true);
+  });
+});
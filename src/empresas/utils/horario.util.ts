@@ -0,0 +1,92 @@
+import { Empresa, TramoHorario } from '../schemas/empresa.schema';
+import {
+  getZonaHoraria,
+  horaLocal,
+  instanteLocal,
+  sumarDias,
+} from './fecha.util';
+
+type EmpresaConHorario = Pick<Empresa, 'codigoPais'> &
+  Partial<Pick<Empresa, 'horario'>>;
+
+function aMinutos(hora: string): number {
+  const [horas, minutos] = hora.split(':').map(Number);
+  return horas * 60 + minutos;
+}
+
+// Un tramo cuyo cierre no es posterior a su apertura termina al día siguiente (ej. 18:00 a 02:00)
+function cruzaMedianoche(tramo: TramoHorario): boolean {
+  return aMinutos(tramo.cierra) <= aMinutos(tramo.abre);
+}
+
+export function tieneHorario(empresa: EmpresaConHorario): boolean {
+  return !!empresa.horario?.tramos?.length;
+}
+
+export function estaAbierta(
+  empresa: EmpresaConHorario,
+  fecha = new Date(),
+): boolean {
+  if (!tieneHorario(empresa)) {
+    return true;
+  }
+  const { horario } = empresa;
+  const local = horaLocal(fecha, getZonaHoraria(empresa));
+  const feriados = horario!.feriados ?? [];
+
+  // Tramos que abrieron hoy
+  const abiertaHoy =
+    !feriados.includes(local.fecha) &&
+    horario!.tramos.some(
+      t =>
+        t.dia === local.dia &&
+        aMinutos(t.abre) <= local.minutos &&
+        (cruzaMedianoche(t) || local.minutos < aMinutos(t.cierra)),
+    );
+  // Tramos que abrieron ayer y siguen abiertos pasada la medianoche
+  const abiertaDesdeAyer =
+    !feriados.includes(sumarDias(local.fecha, -1)) &&
+    horario!.tramos.some(
+      t =>
+        t.dia === (local.dia + 6) % 7 &&
+        cruzaMedianoche(t) &&
+        local.minutos < aMinutos(t.cierra),
+    );
+  return abiertaHoy || abiertaDesdeAyer;
+}
+
+/**
+ * Próximo instante en que abre la tienda después de `desde`, buscando hasta dos semanas
+ * adelante y saltando feriados. Cada apertura se convierte con el desfase de su propia
+ * fecha, así que un cambio de horario de verano no la corre una hora.
+ */
+export function proximaApertura(
+  empresa: EmpresaConHorario,
+  desde = new Date(),
+): Date | undefined {
+  if (!tieneHorario(empresa)) {
+    return undefined;
+  }
+  const { horario } = empresa;
+  const zonaHoraria = getZonaHoraria(empresa);
+  const inicio = new Date(Math.floor(desde.getTime() / 60000) * 60000);
+  const local = horaLocal(inicio, zonaHoraria);
+
+  for (let i = 0; i < 14; i++) {
+    const fecha = sumarDias(local.fecha, i);
+    if (horario!.feriados?.includes(fecha)) continue;
+
+    const aperturas = horario!.tramos
+      .filter(t => t.dia === (local.dia + i) % 7)
+      .map(t => aMinutos(t.abre))
+      .sort((a, b) => a - b);
+
+    for (const abre of aperturas) {
+      const candidato = instanteLocal(fecha, abre, zonaHoraria);
+      if (candidato.getTime() > inicio.getTime()) {
+        return candidato;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,40 @@
+import { calcularImpuesto } from './impuesto.util';
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+
+describe('impuesto.util', () => {
+  it('should not charge taxes unless the empresa enables them', () => {
+    expect(
+      calcularImpuesto({ codigoPais: PaisCodigo.COLOMBIA }, 11900, 0),
+    ).toBeUndefined();
+  });
+
+  it('should extract the tax already included in the prices', () => {
+    const empresa = {
+      codigoPais: PaisCodigo.COLOMBIA,
+      impuestos: { aplica: true, preciosIncluyenImpuesto: true },
+    };
+
+    expect(calcularImpuesto(empresa, 11900, 0)).toEqual({
+      nombre: 'IVA',
+      tasa: 19,
+      base: 10000,
+      monto: 1900,
+      incluido: true,
+    });
+  });
+
+  it('should add the tax on top when prices exclude it, using the empresa rate', () => {
+    const empresa = {
+      codigoPais: PaisCodigo.ECUADOR,
+      impuestos: { aplica: true, tasa: 12, preciosIncluyenImpuesto: false },
+    };
+
+    expect(calcularImpuesto(empresa, 10.5, 2)).toEqual({
+      nombre: 'IVA',
+      tasa: 12,
+      base: 10.5,
+      monto: 1.26,
+      incluido: false,
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { Empresa } from '../schemas/empresa.schema';
+import { PAIS_CONFIG } from '../constants/pais-config.constants';
+import { redondearMoneda } from './moneda.util';
+
+export interface DesgloseImpuesto {
+  nombre: string;
+  tasa: number; // Porcentaje
+  base: number; // Subtotal sin impuesto
+  monto: number;
+  incluido: boolean; // true si el monto ya estaba dentro de los precios
+}
+
+/**
+ * Calcula el impuesto de un subtotal de productos (el envío no se grava). Usa la
+ * tasa y el nombre del país salvo que la empresa los sobrescriba; devuelve
+ * undefined si la empresa no cobra impuestos.
+ */
+export function calcularImpuesto(
+  empresa: Pick<Empresa, 'codigoPais' | 'impuestos'>,
+  subtotal: number,
+  decimales: number,
+): DesgloseImpuesto | undefined {
+  const config = empresa.impuestos;
+  if (!config?.aplica) {
+    return undefined;
+  }
+
+  const pais = PAIS_CONFIG[empresa.codigoPais];
+  const tasa = config.tasa ?? pais?.impuesto.tasa ?? 0;
+  if (tasa <= 0) {
+    return undefined;
+  }
+
+  const incluido = config.preciosIncluyenImpuesto !== false;
+  const base = incluido
+    ? redondearMoneda(subtotal / (1 + tasa / 100), decimales)
+    : subtotal;
+  const monto = incluido
+    ? redondearMoneda(subtotal - base, decimales)
+    : redondearMoneda((subtotal * tasa) / 100, decimales);
+
+  return {
+    nombre: config.nombre || pais?.impuesto.nombre || 'Impuesto',
+    tasa,
+    base,
+    monto,
+    incluido,
+  };
+}
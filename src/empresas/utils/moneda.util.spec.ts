@@ -0,0 +1,26 @@
+import { formatMoneda, getFormatoMoneda } from './moneda.util';
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+
+describe('moneda.util', () => {
+  it('should format Colombian pesos without decimals', () => {
+    const formato = getFormatoMoneda({ codigoPais: PaisCodigo.COLOMBIA });
+
+    expect(formato).toEqual({ moneda: 'COP', locale: 'es-CO', decimales: 0 });
+    expect(formatMoneda(12500.4, formato).replace(/\s/g, ' ')).toBe('$ 12.500');
+  });
+
+  it('should format dollars with two decimals in Ecuador', () => {
+    expect(
+      formatMoneda(12.5, getFormatoMoneda({ codigoPais: PaisCodigo.ECUADOR })),
+    ).toBe('$12,50');
+  });
+
+  it('should let the empresa override the currency of its country', () => {
+    const formato = getFormatoMoneda({
+      codigoPais: PaisCodigo.VENEZUELA,
+      moneda: 'USD',
+    });
+
+    expect(formato).toEqual({ moneda: 'USD', locale: 'es-VE', decimales: 2 });
+  });
+});
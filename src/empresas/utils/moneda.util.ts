@@ -0,0 +1,40 @@
+import { Empresa } from '../schemas/empresa.schema';
+import { PAIS_CONFIG } from '../constants/pais-config.constants';
+
+// Cómo se muestran los montos de una empresa
+export interface FormatoMoneda {
+  moneda: string; // Código ISO 4217
+  locale: string;
+  decimales: number;
+}
+
+// La empresa puede sobrescribir la moneda y el locale de su país
+export function getFormatoMoneda(
+  empresa: Pick<Empresa, 'codigoPais' | 'moneda' | 'locale'>,
+): FormatoMoneda {
+  const pais = PAIS_CONFIG[empresa.codigoPais];
+  const moneda = empresa.moneda || pais?.moneda || 'USD';
+  const decimales =
+    pais && moneda === pais.moneda
+      ? pais.decimales
+      : new Intl.NumberFormat('en', {
+          style: 'currency',
+          currency: moneda,
+        }).resolvedOptions().maximumFractionDigits;
+
+  return { moneda, locale: empresa.locale || pais?.locale || 'es', decimales };
+}
+
+export function formatMoneda(monto: number, formato: FormatoMoneda): string {
+  return new Intl.NumberFormat(formato.locale, {
+    style: 'currency',
+    currency: formato.moneda,
+    minimumFractionDigits: formato.decimales,
+    maximumFractionDigits: formato.decimales,
+  }).format(monto);
+}
+
+export function redondearMoneda(monto: number, decimales: number): number {
+  const factor = 10 ** decimales;
+  return Math.round(monto * factor) / factor;
+}
@@ -0,0 +1,41 @@
+import { precioVigente } from './oferta.util';
+
+describe('oferta.util', () => {
+  const fecha = new Date('2024-06-15T12:00:00Z');
+
+  it('should use the sale price inside its validity window', () => {
+    const oferta = {
+      precioOferta: 8000,
+      ofertaDesde: '2024-06-01',
+      ofertaHasta: '2024-06-30',
+    };
+
+    expect(precioVigente(10000, oferta, fecha)).toEqual({
+      precio: 8000,
+      precioAnterior: 10000,
+    });
+  });
+
+  it('should use the regular price before or after the sale', () => {
+    expect(
+      precioVigente(
+        10000,
+        { precioOferta: 8000, ofertaDesde: '2024-07-01' },
+        fecha,
+      ),
+    ).toEqual({ precio: 10000 });
+    expect(
+      precioVigente(
+        10000,
+        { precioOferta: 8000, ofertaHasta: '2024-06-01' },
+        fecha,
+      ),
+    ).toEqual({ precio: 10000 });
+  });
+
+  it('should ignore sale prices that are not lower than the regular price', () => {
+    expect(precioVigente(10000, { precioOferta: 12000 }, fecha)).toEqual({
+      precio: 10000,
+    });
+  });
+});
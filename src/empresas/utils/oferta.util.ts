@@ -0,0 +1,34 @@
+// Campos de precio promocional comunes a productos y presentaciones
+export interface Oferta {
+  precioOferta?: number;
+  ofertaDesde?: Date | string;
+  ofertaHasta?: Date | string;
+}
+
+export interface PrecioVigente {
+  precio: number;
+  precioAnterior?: number; // Solo si hay una oferta activa
+}
+
+export function ofertaActiva(
+  oferta: Oferta,
+  precioBase: number,
+  fecha = new Date(),
+): boolean {
+  if (oferta.precioOferta == null || oferta.precioOferta >= precioBase)
+    return false;
+  if (oferta.ofertaDesde && new Date(oferta.ofertaDesde) > fecha) return false;
+  if (oferta.ofertaHasta && new Date(oferta.ofertaHasta) < fecha) return false;
+  return true;
+}
+
+// Precio a cobrar en la fecha dada: el de oferta mientras esté vigente, si no el normal
+export function precioVigente(
+  precioBase: number,
+  oferta: Oferta = {},
+  fecha = new Date(),
+): PrecioVigente {
+  return ofertaActiva(oferta, precioBase, fecha)
+    ? { precio: oferta.precioOferta!, precioAnterior: precioBase }
+    : { precio: precioBase };
+}
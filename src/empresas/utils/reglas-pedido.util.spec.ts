@@ -0,0 +1,36 @@
+import { proximaFechaEntrega, validarReglasPedido } from './reglas-pedido.util';
+
+describe('reglas-pedido.util', () => {
+  it('should report how much is missing to reach the minimum order', () => {
+    const reglas = { montoMinimo: 50000, diasEntrega: [] };
+
+    expect(validarReglasPedido(reglas, [], 38000)).toEqual([
+      { tipo: 'monto_minimo', minimo: 50000, faltante: 12000 },
+    ]);
+    expect(validarReglasPedido(reglas, [], 50000)).toEqual([]);
+  });
+
+  it('should add up every presentation of a SKU against the maximum quantity', () => {
+    const reglas = { cantidadMaximaPorProducto: 10, diasEntrega: [] };
+    const lineas = [
+      { sku: 'CAFE', nombre: 'Café', cantidad: 6 },
+      { sku: 'CAFE', nombre: 'Café', cantidad: 5 },
+      { sku: 'PAN', nombre: 'Pan', cantidad: 10 },
+    ];
+
+    expect(validarReglasPedido(reglas, lineas, 0)).toEqual([
+      { tipo: 'cantidad_maxima', nombre: 'Café', maximo: 10, cantidad: 11 },
+    ]);
+  });
+
+  it('should find the next delivery day in the empresa time zone', () => {
+    // Sábado 02:00 UTC es todavía viernes en Bogotá
+    const desde = new Date('2024-06-01T02:00:00Z');
+
+    expect(proximaFechaEntrega([5], 'America/Bogota', desde)).toEqual(desde);
+    expect(
+      proximaFechaEntrega([1], 'America/Bogota', desde)?.toISOString(),
+    ).toBe('2024-06-04T02:00:00.000Z');
+    expect(proximaFechaEntrega([], 'America/Bogota', desde)).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { ReglasPedido } from '../schemas/empresa.schema';
+import { diaSemana } from './fecha.util';
+
+export interface LineaPedido {
+  sku: string;
+  nombre: string;
+  cantidad: number;
+}
+
+export type IncumplimientoRegla =
+  | { tipo: 'monto_minimo'; minimo: number; faltante: number }
+  | {
+      tipo: 'cantidad_maxima';
+      nombre: string;
+      maximo: number;
+      cantidad: number;
+    };
+
+/**
+ * Revisa el carrito contra las reglas de la empresa y devuelve lo que falta para
+ * poder pedir; la lista vacía significa que el pedido puede continuar.
+ */
+export function validarReglasPedido(
+  reglas: ReglasPedido | undefined,
+  lineas: LineaPedido[],
+  subtotal: number,
+): IncumplimientoRegla[] {
+  const incumplimientos: IncumplimientoRegla[] = [];
+  if (!reglas) {
+    return incumplimientos;
+  }
+
+  if (reglas.montoMinimo && subtotal < reglas.montoMinimo) {
+    incumplimientos.push({
+      tipo: 'monto_minimo',
+      minimo: reglas.montoMinimo,
+      faltante: reglas.montoMinimo - subtotal,
+    });
+  }
+
+  if (reglas.cantidadMaximaPorProducto) {
+    // Las presentaciones de un mismo SKU cuentan juntas
+    const porSku = new Map<string, { nombre: string; cantidad: number }>();
+    for (const linea of lineas) {
+      const acumulado = porSku.get(linea.sku);
+      porSku.set(linea.sku, {
+        nombre: linea.nombre,
+        cantidad: (acumulado?.cantidad ?? 0) + linea.cantidad,
+      });
+    }
+    for (const { nombre, cantidad } of porSku.values()) {
+      if (cantidad > reglas.cantidadMaximaPorProducto) {
+        incumplimientos.push({
+          tipo: 'cantidad_maxima',
+          nombre,
+          maximo: reglas.cantidadMaximaPorProducto,
+          cantidad,
+        });
+      }
+    }
+  }
+
+  return incumplimientos;
+}
+
+// Primer día de entrega desde `desde` (incluido); undefined si la empresa entrega todos los días
+export function proximaFechaEntrega(
+  diasEntrega: number[] | undefined,
+  zonaHoraria: string,
+  desde = new Date(),
+): Date | undefined {
+  if (!diasEntrega?.length) {
+    return undefined;
+  }
+  for (let i = 0; i < 7; i++) {
+    const fecha = new Date(desde.getTime() + i * 24 * 60 * 60 * 1000);
+    if (diasEntrega.includes(diaSemana(fecha, zonaHoraria))) {
+      return fecha;
+    }
+  }
+  return undefined;
+}
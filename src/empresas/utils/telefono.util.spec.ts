@@ -0,0 +1,34 @@
+import { normalizarTelefono } from './telefono.util';
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+
+describe('telefono.util', () => {
+  it('should accept a national number and add the country code', () => {
+    expect(normalizarTelefono('300 123 4567', PaisCodigo.COLOMBIA)).toBe(
+      '573001234567',
+    );
+  });
+
+  it('should accept numbers that already include the country code', () => {
+    expect(normalizarTelefono('+57 300-123-4567', PaisCodigo.COLOMBIA)).toBe(
+      '573001234567',
+    );
+    expect(normalizarTelefono('593991234567', PaisCodigo.ECUADOR)).toBe(
+      '593991234567',
+    );
+  });
+
+  it('should drop the leading trunk zero', () => {
+    expect(normalizarTelefono('0991234567', PaisCodigo.ECUADOR)).toBe(
+      '593991234567',
+    );
+    expect(normalizarTelefono('0414-1234567', PaisCodigo.VENEZUELA)).toBe(
+      '584141234567',
+    );
+  });
+
+  it('should reject numbers with the wrong length for the country', () => {
+    expect(normalizarTelefono('30012345', PaisCodigo.COLOMBIA)).toBeNull();
+    expect(normalizarTelefono('3001234567', PaisCodigo.ECUADOR)).toBeNull();
+    expect(normalizarTelefono('sin teléfono', PaisCodigo.COLOMBIA)).toBeNull();
+  });
+});
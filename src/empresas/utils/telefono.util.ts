@@ -0,0 +1,33 @@
+import { PaisCodigo } from '../enums/pais-codigo.enum';
+import { PAIS_CONFIG } from '../constants/pais-config.constants';
+
+/**
+ * Normaliza un teléfono escrito por el cliente al formato internacional sin '+'
+ * (ej: 573001234567). Acepta el número con o sin indicativo, con 0 inicial,
+ * espacios o guiones. Devuelve null si no es válido para el país.
+ */
+export function normalizarTelefono(
+  texto: string,
+  codigoPais: PaisCodigo,
+): string | null {
+  const config = PAIS_CONFIG[codigoPais];
+  let digitos = texto.replace(/\D/g, '');
+  if (!config || !digitos) return null;
+
+  if (
+    digitos.startsWith(codigoPais) &&
+    digitos.length === codigoPais.length + config.digitosTelefono
+  ) {
+    digitos = digitos.slice(codigoPais.length);
+  }
+  if (
+    digitos.startsWith('0') &&
+    digitos.length === config.digitosTelefono + 1
+  ) {
+    digitos = digitos.slice(1);
+  }
+
+  return digitos.length === config.digitosTelefono
+    ? `${codigoPais}${digitos}`
+    : null;
+}
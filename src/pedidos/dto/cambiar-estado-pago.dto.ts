@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { EstadoPago } from '../enums/estado-pago.enum';
+
+export class CambiarEstadoPagoDto {
+  // Los demás estados los asigna el bot al recibir comprobantes
+  @IsIn([EstadoPago.VERIFICADO, EstadoPago.RECHAZADO])
+  estadoPago: EstadoPago.VERIFICADO | EstadoPago.RECHAZADO;
+
+  @IsString()
+  @IsOptional()
+  nota?: string;
+}
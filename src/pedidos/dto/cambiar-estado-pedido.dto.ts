@@ -0,0 +1,11 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { EstadoPedido } from '../enums/estado-pedido.enum';
+
+export class CambiarEstadoPedidoDto {
+  @IsEnum(EstadoPedido)
+  estado: EstadoPedido;
+
+  @IsString()
+  @IsOptional()
+  nota?: string;
+}
@@ -1,5 +1,16 @@
-import { IsString, IsMongoId, IsArray, ValidateNested, IsNumber, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsMongoId,
+  IsArray,
+  ValidateNested,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsDateString,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { TipoMetodoPago } from '../../empresas/enums/tipo-metodo-pago.enum';
 
 class PedidoItemDto {
   @IsString()
@@ -11,6 +22,67 @@ class PedidoItemDto {
   @IsString()
   @IsOptional()
   presentacion?: string;
+
+  @IsString()
+  nombre: string;
+
+  @IsNumber()
+  precioUnitario: number;
+
+  @IsNumber()
+  @IsOptional()
+  subtotal?: number;
+}
+
+class DireccionEntregaDto {
+  @IsString()
+  @IsOptional()
+  etiqueta?: string;
+
+  @IsString()
+  direccion: string;
+
+  @IsString()
+  @IsOptional()
+  referencias?: string;
+
+  @IsArray()
+  @IsNumber({}, { each: true })
+  @IsOptional()
+  coordenadas?: number[];
+}
+
+class ImpuestoPedidoDto {
+  @IsString()
+  nombre: string;
+
+  @IsNumber()
+  tasa: number;
+
+  @IsNumber()
+  base: number;
+
+  @IsNumber()
+  monto: number;
+
+  @IsBoolean()
+  incluido: boolean;
+}
+
+class MetodoPagoPedidoDto {
+  @IsEnum(TipoMetodoPago)
+  tipo: TipoMetodoPago;
+
+  @IsString()
+  nombre: string;
+}
+
+class CuponPedidoDto {
+  @IsString()
+  codigo: string;
+
+  @IsNumber()
+  descuento: number;
 }
 
 export class CreatePedidoDto {
@@ -27,4 +99,48 @@ export class CreatePedidoDto {
 
   @IsNumber()
   totalPrecio: number;
+
+  @ValidateNested()
+  @Type(() => ImpuestoPedidoDto)
+  @IsOptional()
+  impuesto?: ImpuestoPedidoDto;
+
+  @ValidateNested()
+  @Type(() => CuponPedidoDto)
+  @IsOptional()
+  cupon?: CuponPedidoDto;
+
+  @IsNumber()
+  @IsOptional()
+  costoEnvio?: number;
+
+  @IsNumber()
+  @IsOptional()
+  distanciaKm?: number;
+
+  @ValidateNested()
+  @Type(() => DireccionEntregaDto)
+  @IsOptional()
+  direccionEntrega?: DireccionEntregaDto;
+
+  @IsDateString()
+  @IsOptional()
+  fechaEntrega?: string;
+
+  @IsDateString()
+  @IsOptional()
+  programadoPara?: string;
+
+  @IsString()
+  moneda: string;
+
+  @ValidateNested()
+  @Type(() => MetodoPagoPedidoDto)
+  @IsOptional()
+  metodoPago?: MetodoPagoPedidoDto;
+
+  // Sesión del bot que tomó el pedido, usada para notificar al cliente
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
 }
@@ -0,0 +1,60 @@
+import {
+  IsOptional,
+  IsMongoId,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  IsDateString,
+  IsEnum,
+  IsString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { EstadoPedido } from '../enums/estado-pedido.enum';
+import { EstadoPago } from '../enums/estado-pago.enum';
+
+export const PEDIDO_SORT_FIELDS = ['fecha', 'totalPrecio', 'estadoPedido'];
+
+export class FindPedidosQueryDto {
+  @IsOptional()
+  @IsEnum(EstadoPedido)
+  estadoPedido?: EstadoPedido;
+
+  @IsOptional()
+  @IsEnum(EstadoPago)
+  estadoPago?: EstadoPago;
+
+  @IsOptional()
+  @IsMongoId()
+  clienteId?: string;
+
+  @IsOptional()
+  @IsString()
+  codigo?: string;
+
+  @IsOptional()
+  @IsDateString()
+  desde?: string;
+
+  @IsOptional()
+  @IsDateString()
+  hasta?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  // Campo de ordenamiento; un prefijo "-" indica orden descendente (ej: -fecha)
+  @IsOptional()
+  @IsIn([...PEDIDO_SORT_FIELDS, ...PEDIDO_SORT_FIELDS.map(f => `-${f}`)])
+  sort?: string = '-fecha';
+}
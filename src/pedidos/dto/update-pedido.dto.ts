@@ -0,0 +1,13 @@
+import { PartialType, PickType } from '@nestjs/mapped-types';
+import { IsOptional, IsString } from 'class-validator';
+import { CreatePedidoDto } from './create-pedido.dto';
+
+// Solo datos de entrega y notas: ítems, montos y cupón quedan fijos desde el checkout (el stock
+// ya está reservado) y el estado se cambia con PATCH /pedidos/:id/estado
+export class UpdatePedidoDto extends PartialType(
+  PickType(CreatePedidoDto, ['direccionEntrega', 'fechaEntrega'] as const),
+) {
+  @IsString()
+  @IsOptional()
+  notas?: string;
+}
@@ -0,0 +1,6 @@
+export enum EstadoPago {
+  PENDIENTE = 'pendiente',
+  COMPROBANTE_RECIBIDO = 'comprobante_recibido',
+  VERIFICADO = 'verificado',
+  RECHAZADO = 'rechazado',
+}
@@ -0,0 +1,34 @@
+export enum EstadoPedido {
+  PENDIENTE = 'pendiente',
+  CONFIRMADO = 'confirmado',
+  EN_PREPARACION = 'en_preparacion',
+  EN_CAMINO = 'en_camino',
+  ENTREGADO = 'entregado',
+  CANCELADO = 'cancelado',
+  RECHAZADO = 'rechazado',
+  // Estado heredado de la primera versión del esquema; no admite transiciones
+  CERRADO = 'cerrado',
+}
+
+// Transiciones permitidas desde cada estado del pedido
+export const TRANSICIONES_ESTADO_PEDIDO: Record<EstadoPedido, EstadoPedido[]> =
+  {
+    [EstadoPedido.PENDIENTE]: [
+      EstadoPedido.CONFIRMADO,
+      EstadoPedido.CANCELADO,
+      EstadoPedido.RECHAZADO,
+    ],
+    [EstadoPedido.CONFIRMADO]: [
+      EstadoPedido.EN_PREPARACION,
+      EstadoPedido.CANCELADO,
+    ],
+    [EstadoPedido.EN_PREPARACION]: [
+      EstadoPedido.EN_CAMINO,
+      EstadoPedido.CANCELADO,
+    ],
+    [EstadoPedido.EN_CAMINO]: [EstadoPedido.ENTREGADO],
+    [EstadoPedido.ENTREGADO]: [],
+    [EstadoPedido.CANCELADO]: [],
+    [EstadoPedido.RECHAZADO]: [],
+    [EstadoPedido.CERRADO]: [],
+  };
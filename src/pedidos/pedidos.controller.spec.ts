@@ -1,12 +1,25 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { PedidosController } from './pedidos.controller';
+import { PedidosService } from './pedidos.service';
+
+jest.mock('./pedidos.service', () => ({ PedidosService: class {} }));
 
 describe('PedidosController', () => {
   let controller: PedidosController;
+  const pedidosService = {
+    findAllByEmpresa: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [PedidosController],
+      providers: [
+        { provide: PedidosService, useValue: pedidosService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<PedidosController>(PedidosController);
@@ -15,4 +28,16 @@ describe('PedidosController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should list pedidos of an empresa', async () => {
+    const result = { data: [], total: 0, page: 1, limit: 20, totalPages: 0 };
+    pedidosService.findAllByEmpresa.mockResolvedValue(result);
+
+    await expect(
+      controller.findAllByEmpresa('empresa1', { page: 1 }),
+    ).resolves.toBe(result);
+    expect(pedidosService.findAllByEmpresa).toHaveBeenCalledWith('empresa1', {
+      page: 1,
+    });
+  });
 });
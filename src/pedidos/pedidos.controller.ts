@@ -1,4 +1,105 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Body,
+  Patch,
+  Param,
+  ParseIntPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { PedidosService } from './pedidos.service';
+import { UpdatePedidoDto } from './dto/update-pedido.dto';
+import { FindPedidosQueryDto } from './dto/find-pedidos-query.dto';
+import { CambiarEstadoPedidoDto } from './dto/cambiar-estado-pedido.dto';
+import { CancelarPedidoDto } from './dto/cancelar-pedido.dto';
+import { CambiarEstadoPagoDto } from './dto/cambiar-estado-pago.dto';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
 
 @Controller('pedidos')
-export class PedidosController {}
+export class PedidosController {
+  constructor(private readonly pedidosService: PedidosService) {}
+
+  @Get('empresa/:empresaId')
+  findAllByEmpresa(
+    @Param('empresaId') empresaId: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: FindPedidosQueryDto,
+  ) {
+    return this.pedidosService.findAllByEmpresa(empresaId, query);
+  }
+
+  @Get('codigo/:codigo')
+  findOneByCodigo(@Param('codigo') codigo: string) {
+    return this.pedidosService.findOneByCodigo(codigo);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.pedidosService.findOne(id);
+  }
+
+  // Los comprobantes tienen datos bancarios del cliente: solo con la clave del panel
+  @Get(':id/comprobantes/:n')
+  @UseGuards(ApiKeyGuard)
+  async findComprobante(
+    @Param('id') id: string,
+    @Param('n', ParseIntPipe) n: number,
+  ) {
+    const comprobante = await this.pedidosService.obtenerComprobante(id, n);
+    return new StreamableFile(comprobante.contenido, {
+      type: comprobante.tipo,
+      disposition: 'inline',
+    });
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    updatePedidoDto: UpdatePedidoDto,
+  ) {
+    return this.pedidosService.update(id, updatePedidoDto);
+  }
+
+  @Patch(':id/estado')
+  cambiarEstado(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    cambiarEstadoDto: CambiarEstadoPedidoDto,
+  ) {
+    return this.pedidosService.cambiarEstado(
+      id,
+      cambiarEstadoDto.estado,
+      cambiarEstadoDto.nota,
+    );
+  }
+
+  @Patch(':id/cancelar')
+  cancelar(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    cancelarPedidoDto: CancelarPedidoDto,
+  ) {
+    return this.pedidosService.cancelar(
+      id,
+      cancelarPedidoDto.motivo,
+      'empresa',
+    );
+  }
+
+  @Patch(':id/pago')
+  cambiarEstadoPago(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    cambiarEstadoPagoDto: CambiarEstadoPagoDto,
+  ) {
+    return this.pedidosService.cambiarEstadoPago(
+      id,
+      cambiarEstadoPagoDto.estadoPago,
+      cambiarEstadoPagoDto.nota,
+    );
+  }
+}
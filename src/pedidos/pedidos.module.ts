@@ -1,14 +1,25 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PedidosController } from './pedidos.controller';
 import { PedidosService } from './pedidos.service';
 import { Pedido, PedidoSchema } from './schemas/pedido.schema';
+import { Contador, ContadorSchema } from './schemas/contador.schema';
+import { WhatsappModule } from '../whatsapp/whatsapp.module';
+import { EmpresasModule } from '../empresas/empresas.module';
+import { CuponesModule } from '../cupones/cupones.module';
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: Pedido.name, schema: PedidoSchema }])],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Pedido.name, schema: PedidoSchema },
+      { name: Contador.name, schema: ContadorSchema },
+    ]),
+    forwardRef(() => WhatsappModule),
+    EmpresasModule,
+    CuponesModule,
+  ],
   controllers: [PedidosController],
   providers: [PedidosService],
   exports: [PedidosService]
 })
 export class PedidosModule {}
-
@@ -0,0 +1,89 @@
+import { EstadoPedido } from './enums/estado-pedido.enum';
+import { EstadoPago } from './enums/estado-pago.enum';
+import { Pedido } from './schemas/pedido.schema';
+import { FormatoMoneda, formatMoneda } from '../empresas/utils/moneda.util';
+
+const MENSAJES_ESTADO: Partial<Record<EstadoPedido, (ref: string) => string>> =
+  {
+    [EstadoPedido.CONFIRMADO]: ref => `✅ ¡Tu pedido ${ref} fue confirmado!`,
+    [EstadoPedido.EN_PREPARACION]: ref =>
+      `👨‍🍳 Tu pedido ${ref} se está preparando.`,
+    [EstadoPedido.EN_CAMINO]: ref => `🛵 Tu pedido ${ref} va en camino.`,
+    [EstadoPedido.ENTREGADO]: ref =>
+      `📦 Tu pedido ${ref} fue entregado. ¡Gracias por tu compra!`,
+    [EstadoPedido.CANCELADO]: ref => `❌ Tu pedido ${ref} fue cancelado.`,
+    [EstadoPedido.RECHAZADO]: ref =>
+      `⚠️ Tu pedido ${ref} fue rechazado por la tienda.`,
+  };
+
+// Referencia del pedido para los mensajes: "*PAN-000123* de *Panadería*"
+function buildPedidoRef(pedido: Pedido, empresaNombre: string): string {
+  return pedido.codigo
+    ? `*${pedido.codigo}* de *${empresaNombre}*`
+    : `de *${empresaNombre}*`;
+}
+
+export function buildEstadoPedidoMessage(
+  pedido: Pedido,
+  empresaNombre: string,
+  nota?: string,
+): string {
+  const ref = buildPedidoRef(pedido, empresaNombre);
+  const builder = MENSAJES_ESTADO[pedido.estadoPedido];
+  let message = builder
+    ? builder(ref)
+    : `Tu pedido ${ref} cambió a: *${pedido.estadoPedido}*.`;
+  if (nota) {
+    message += `\n\n*Nota:* ${nota}`;
+  }
+  return message;
+}
+
+export function buildCancelacionEmpresaMessage(
+  customerName: string,
+  pedido: Pedido,
+): string {
+  const items = pedido.items
+    .map(
+      item =>
+        `- ${item.cantidad} x ${item.nombre || item.sku}${item.presentacion ? ` (${item.presentacion})` : ''}`,
+    )
+    .join('\n');
+  return (
+    `❌ *Pedido${pedido.codigo ? ` ${pedido.codigo}` : ''} cancelado por el cliente*\n\n` +
+    `*Cliente:* ${customerName}\n` +
+    `*Motivo:* ${pedido.motivoCancelacion || 'No indicado'}\n\n` +
+    `*Productos:*\n${items}\n\n` +
+    `El stock de estos productos fue restituido.`
+  );
+}
+
+export function buildEstadoPagoMessage(
+  pedido: Pedido,
+  empresaNombre: string,
+  nota?: string,
+): string {
+  const ref = buildPedidoRef(pedido, empresaNombre);
+  let message =
+    pedido.estadoPago === EstadoPago.VERIFICADO
+      ? `💰 Confirmamos el pago de tu pedido ${ref}. ¡Gracias!`
+      : `⚠️ No pudimos verificar el pago de tu pedido ${ref}. Por favor, envía de nuevo la foto del comprobante o comunícate con la tienda.`;
+  if (nota) {
+    message += `\n\n*Nota:* ${nota}`;
+  }
+  return message;
+}
+
+export function buildComprobanteEmpresaCaption(
+  customerName: string,
+  pedido: Pedido,
+  formato: FormatoMoneda,
+): string {
+  return (
+    `🧾 *Comprobante de pago${pedido.codigo ? ` del pedido ${pedido.codigo}` : ''}*\n\n` +
+    `*Cliente:* ${customerName}\n` +
+    `*Método:* ${pedido.metodoPago?.nombre || 'No indicado'}\n` +
+    `*Total:* ${formatMoneda(pedido.totalPrecio, formato)}\n\n` +
+    `Verifica el pago y márcalo como verificado en el panel.`
+  );
+}
@@ -1,12 +1,72 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PedidosService } from './pedidos.service';
+import { Pedido } from './schemas/pedido.schema';
+import { Contador } from './schemas/contador.schema';
+import { EstadoPedido } from './enums/estado-pedido.enum';
+import { EstadoPago } from './enums/estado-pago.enum';
+import { WhatsappService } from '../whatsapp/whatsapp.service';
+import { EmpresasService } from '../empresas/empresas.service';
+import { CuponesService } from '../cupones/cupones.service';
+import { StockInsuficienteException } from '../empresas/exceptions/stock-insuficiente.exception';
+
+jest.mock('../whatsapp/whatsapp.service', () => ({
+  WhatsappService: class {},
+}));
+
+// Crea un query encadenable de mongoose que resuelve con el valor dado
+const mockQuery = (value: any) => {
+  const query: any = {};
+  ['find', 'sort', 'skip', 'limit', 'populate', 'select'].forEach(
+    m => (query[m] = jest.fn().mockReturnValue(query)),
+  );
+  query.exec = jest.fn().mockResolvedValue(value);
+  return query;
+};
 
 describe('PedidosService', () => {
   let service: PedidosService;
+  const pedidoModel: any = jest.fn().mockImplementation(doc => ({
+    ...doc,
+    save: jest.fn().mockResolvedValue(doc),
+  }));
+  Object.assign(pedidoModel, {
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    countDocuments: jest.fn(),
+  });
+  const contadorModel = { findOneAndUpdate: jest.fn() };
+  const whatsappService = {
+    sendMessage: jest.fn(),
+    getActiveSessionIds: jest.fn(),
+  };
+  const empresasService = {
+    reserveStock: jest.fn(),
+    releaseStock: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const cuponesService = { registrarUso: jest.fn(), liberarUso: jest.fn() };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PedidosService],
+      providers: [
+        PedidosService,
+        { provide: getModelToken(Pedido.name), useValue: pedidoModel },
+        { provide: getModelToken(Contador.name), useValue: contadorModel },
+        { provide: WhatsappService, useValue: whatsappService },
+        { provide: EmpresasService, useValue: empresasService },
+        { provide: CuponesService, useValue: cuponesService },
+      ],
     }).compile();
 
     service = module.get<PedidosService>(PedidosService);
@@ -15,4 +75,360 @@ describe('PedidosService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should create the pedido with the next sequential code of the empresa', async () => {
+    empresasService.findOne.mockResolvedValue({ code: 'pan' });
+    contadorModel.findOneAndUpdate.mockReturnValue(mockQuery({ seq: 123 }));
+
+    const pedido = await service.create({
+      empresaId: 'empresa1',
+      clienteId: 'cliente1',
+      items: [
+        { sku: 'PAN01', cantidad: 2, nombre: 'Pan', precioUnitario: 1000 },
+      ],
+      totalPrecio: 2000,
+      moneda: 'COP',
+    });
+
+    expect(contadorModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { clave: 'pedido:empresa1' },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true },
+    );
+    expect(pedido.codigo).toBe('PAN-000123');
+    expect(pedido.items[0].subtotal).toBe(2000);
+  });
+
+  it('should filter, paginate and sort pedidos by empresa', async () => {
+    const query = mockQuery([{ _id: 'p1' }]);
+    pedidoModel.find.mockReturnValue(query);
+    pedidoModel.countDocuments.mockReturnValue(mockQuery(21));
+
+    const result = await service.findAllByEmpresa('empresa1', {
+      estadoPedido: EstadoPedido.PENDIENTE,
+      desde: '2024-01-01',
+      page: 2,
+      limit: 10,
+      sort: 'totalPrecio',
+    });
+
+    expect(pedidoModel.find).toHaveBeenCalledWith({
+      empresaId: 'empresa1',
+      estadoPedido: EstadoPedido.PENDIENTE,
+      fecha: { $gte: new Date('2024-01-01') },
+    });
+    expect(query.sort).toHaveBeenCalledWith({ totalPrecio: 1, _id: 1 });
+    expect(query.skip).toHaveBeenCalledWith(10);
+    expect(result).toEqual({
+      data: [{ _id: 'p1' }],
+      total: 21,
+      page: 2,
+      limit: 10,
+      totalPages: 3,
+    });
+  });
+
+  it('should throw when the pedido does not exist', async () => {
+    pedidoModel.findById.mockReturnValue(mockQuery(null));
+    await expect(service.findOne('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  describe('cambiarEstado', () => {
+    const buildPedido = (estadoPedido: EstadoPedido) =>
+      ({
+        _id: 'p1',
+        estadoPedido,
+        historialEstados: [],
+        sessionId: 'session_1',
+        items: [
+          {
+            sku: 'PAN01',
+            cantidad: 2,
+            nombre: 'Pan',
+            precioUnitario: 1000,
+            subtotal: 2000,
+          },
+        ],
+        clienteId: { nombre: 'Ana', whatsApp: '573001112233@s.whatsapp.net' },
+        empresaId: {
+          _id: 'empresa1',
+          nombre: 'Panadería',
+          codigoPais: '57',
+          whatsApp: '3009998877',
+        },
+        save: jest.fn().mockResolvedValue(undefined),
+      }) as any;
+
+    beforeEach(() => {
+      pedidoModel.findOneAndUpdate.mockReturnValue(mockQuery({ _id: 'p1' }));
+    });
+
+    it('should apply an allowed transition, record it and notify the customer', async () => {
+      const pedido = buildPedido(EstadoPedido.PENDIENTE);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await service.cambiarEstado(
+        'p1',
+        EstadoPedido.CONFIRMADO,
+        'Listo en 20 minutos',
+      );
+
+      expect(pedido.estadoPedido).toBe(EstadoPedido.CONFIRMADO);
+      expect(pedido.historialEstados).toEqual([
+        expect.objectContaining({
+          estado: EstadoPedido.CONFIRMADO,
+          nota: 'Listo en 20 minutos',
+        }),
+      ]);
+      expect(pedidoModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'p1', estadoPedido: EstadoPedido.PENDIENTE },
+        {
+          $set: { estadoPedido: EstadoPedido.CONFIRMADO },
+          $push: {
+            historialEstados: expect.objectContaining({
+              estado: EstadoPedido.CONFIRMADO,
+            }),
+          },
+        },
+        { new: true },
+      );
+      expect(whatsappService.sendMessage).toHaveBeenCalledWith(
+        'session_1',
+        '573001112233@s.whatsapp.net',
+        expect.stringContaining('Listo en 20 minutos'),
+      );
+    });
+
+    it('should reject a transition that is not allowed', async () => {
+      const pedido = buildPedido(EstadoPedido.ENTREGADO);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await expect(
+        service.cambiarEstado('p1', EstadoPedido.PENDIENTE),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(pedidoModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not release stock twice when another change won the race', async () => {
+      const pedido = buildPedido(EstadoPedido.CONFIRMADO);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+      pedidoModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+      await expect(
+        service.cancelar('p1', 'Sin stock', 'empresa'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(empresasService.releaseStock).not.toHaveBeenCalled();
+      expect(cuponesService.liberarUso).not.toHaveBeenCalled();
+      expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return stock when the vendor rejects the pedido', async () => {
+      const pedido = buildPedido(EstadoPedido.PENDIENTE);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await service.cambiarEstado('p1', EstadoPedido.RECHAZADO);
+
+      expect(empresasService.releaseStock).toHaveBeenCalledWith(
+        'empresa1',
+        pedido.items,
+      );
+    });
+
+    it('should cancel on behalf of the customer, restore stock and notify the company', async () => {
+      const pedido = buildPedido(EstadoPedido.CONFIRMADO);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await service.cancelar('p1', 'Me equivoqué de dirección', 'cliente');
+
+      expect(pedido.estadoPedido).toBe(EstadoPedido.CANCELADO);
+      expect(pedido.motivoCancelacion).toBe('Me equivoqué de dirección');
+      expect(pedido.canceladoPor).toBe('cliente');
+      expect(empresasService.releaseStock).toHaveBeenCalledWith(
+        'empresa1',
+        pedido.items,
+      );
+      expect(whatsappService.sendMessage).toHaveBeenCalledWith(
+        'session_1',
+        '573009998877@s.whatsapp.net',
+        expect.stringContaining('Me equivoqué de dirección'),
+      );
+    });
+  });
+
+  describe('cambiarEstadoPago', () => {
+    const buildPedido = (estadoPago: EstadoPago) =>
+      ({
+        _id: 'p1',
+        codigo: 'PAN-000001',
+        estadoPago,
+        sessionId: 'session_1',
+        clienteId: { whatsApp: '573001112233@s.whatsapp.net' },
+        empresaId: { nombre: 'Panadería' },
+        save: jest.fn().mockResolvedValue(undefined),
+      }) as any;
+
+    it('should mark the payment as verified and notify the customer', async () => {
+      const pedido = buildPedido(EstadoPago.COMPROBANTE_RECIBIDO);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await service.cambiarEstadoPago('p1', EstadoPago.VERIFICADO);
+
+      expect(pedido.estadoPago).toBe(EstadoPago.VERIFICADO);
+      expect(pedido.save).toHaveBeenCalled();
+      expect(whatsappService.sendMessage).toHaveBeenCalledWith(
+        'session_1',
+        '573001112233@s.whatsapp.net',
+        expect.stringContaining('Confirmamos el pago'),
+      );
+    });
+
+    it('should not change a payment that was already verified', async () => {
+      const pedido = buildPedido(EstadoPago.VERIFICADO);
+      pedidoModel.findById.mockReturnValue(mockQuery(pedido));
+
+      await expect(
+        service.cambiarEstadoPago('p1', EstadoPago.RECHAZADO),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(pedido.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findPendienteComprobante', () => {
+    it('should only look for pedidos of the given empresa', async () => {
+      pedidoModel.findOne.mockReturnValue(mockQuery({ _id: 'p1' }));
+
+      await service.findPendienteComprobante('empresa1', 'cliente1');
+
+      expect(pedidoModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          empresaId: 'empresa1',
+          clienteId: 'cliente1',
+        }),
+      );
+    });
+  });
+
+  describe('handleNotificacionesProgramadas', () => {
+    const pedido = {
+      _id: 'p1',
+      codigo: 'PAN-000001',
+      sessionId: 'bot1',
+      empresaId: {
+        nombre: 'Panadería',
+        codigoPais: '57',
+        whatsApp: '3001234567',
+      },
+      notificacionEmpresaPendiente: 'Nuevo pedido',
+    };
+
+    it('should send every due scheduled notification to the company once', async () => {
+      whatsappService.getActiveSessionIds.mockReturnValue(['bot1']);
+      pedidoModel.findOneAndUpdate
+        .mockReturnValueOnce(mockQuery(pedido))
+        .mockReturnValueOnce(mockQuery(null));
+
+      await service.handleNotificacionesProgramadas();
+
+      const [filter, update] = pedidoModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.programadoPara.$lte).toBeInstanceOf(Date);
+      expect(filter.sessionId).toEqual({ $in: ['bot1'] });
+      expect(update).toEqual({ $unset: { notificacionEmpresaPendiente: 1 } });
+      expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+      expect(whatsappService.sendMessage).toHaveBeenCalledWith(
+        'bot1',
+        '573001234567@s.whatsapp.net',
+        'Nuevo pedido',
+      );
+    });
+
+    it('should not claim any notification while no bot session is active', async () => {
+      whatsappService.getActiveSessionIds.mockReturnValue([]);
+
+      await service.handleNotificacionesProgramadas();
+
+      expect(pedidoModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should give the notification back when the session drops after claiming it', async () => {
+      whatsappService.getActiveSessionIds
+        .mockReturnValueOnce(['bot1'])
+        .mockReturnValueOnce([]);
+      pedidoModel.findOneAndUpdate.mockReturnValueOnce(mockQuery(pedido));
+      pedidoModel.updateOne.mockReturnValue(mockQuery(undefined));
+
+      await service.handleNotificacionesProgramadas();
+
+      expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+      expect(pedidoModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'p1' },
+        { $set: { notificacionEmpresaPendiente: 'Nuevo pedido' } },
+      );
+      expect(pedidoModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('checkout', () => {
+    const dto = {
+      empresaId: 'empresa1',
+      clienteId: 'cliente1',
+      items: [
+        { sku: 'PAN01', cantidad: 2, nombre: 'Pan', precioUnitario: 1000 },
+      ],
+      totalPrecio: 2000,
+      moneda: 'COP',
+    };
+
+    it('should not create the pedido when stock cannot be reserved', async () => {
+      const createSpy = jest.spyOn(service, 'create');
+      empresasService.reserveStock.mockRejectedValue(
+        new StockInsuficienteException([
+          { sku: 'PAN01', cantidad: 2, disponible: 1 },
+        ]),
+      );
+
+      await expect(service.checkout(dto)).rejects.toBeInstanceOf(
+        StockInsuficienteException,
+      );
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+
+    it('should release the reserved stock when saving the pedido fails', async () => {
+      empresasService.reserveStock.mockResolvedValue(undefined);
+      jest.spyOn(service, 'create').mockRejectedValue(new Error('db down'));
+
+      await expect(service.checkout(dto)).rejects.toThrow('db down');
+      expect(empresasService.releaseStock).toHaveBeenCalledWith(
+        'empresa1',
+        dto.items,
+      );
+    });
+
+    it('should give back the coupon use when stock cannot be reserved', async () => {
+      cuponesService.registrarUso.mockResolvedValue(undefined);
+      empresasService.reserveStock.mockRejectedValue(
+        new StockInsuficienteException([
+          { sku: 'PAN01', cantidad: 2, disponible: 1 },
+        ]),
+      );
+
+      await expect(
+        service.checkout({
+          ...dto,
+          cupon: { codigo: 'PROMO10', descuento: 200 },
+        }),
+      ).rejects.toBeInstanceOf(StockInsuficienteException);
+      expect(cuponesService.registrarUso).toHaveBeenCalledWith(
+        'empresa1',
+        'PROMO10',
+      );
+      expect(cuponesService.liberarUso).toHaveBeenCalledWith(
+        'empresa1',
+        'PROMO10',
+      );
+    });
+  });
 });
@@ -1,16 +1,698 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FilterQuery, Model, SortOrder } from 'mongoose';
 import { Pedido, PedidoDocument } from './schemas/pedido.schema';
+import { Contador, ContadorDocument } from './schemas/contador.schema';
 import { CreatePedidoDto } from './dto/create-pedido.dto';
+import { UpdatePedidoDto } from './dto/update-pedido.dto';
+import { FindPedidosQueryDto } from './dto/find-pedidos-query.dto';
+import {
+  EstadoPedido,
+  TRANSICIONES_ESTADO_PEDIDO,
+} from './enums/estado-pedido.enum';
+import { WhatsappService } from '../whatsapp/whatsapp.service';
+import {
+  buildCancelacionEmpresaMessage,
+  buildComprobanteEmpresaCaption,
+  buildEstadoPagoMessage,
+  buildEstadoPedidoMessage,
+} from './pedidos.prompts';
+import { EmpresasService } from '../empresas/empresas.service';
+import { EmpresaDocument } from '../empresas/schemas/empresa.schema';
+import { ClienteDocument } from '../clientes/schemas/cliente.schema';
+import { CuponesService } from '../cupones/cupones.service';
+import { EstadoPago } from './enums/estado-pago.enum';
+import { TipoMetodoPago } from '../empresas/enums/tipo-metodo-pago.enum';
+import { getFormatoMoneda } from '../empresas/utils/moneda.util';
+import { promises as fs } from 'fs';
+import { basename, extname, join } from 'path';
+
+// Fuera de public/: los comprobantes solo se descargan por GET /pedidos/:id/comprobantes/:n
+const COMPROBANTES_DIR = join(process.cwd(), 'uploads', 'comprobantes');
+// Ubicación anterior, servida como archivo estático; se vacía al iniciar
+const COMPROBANTES_DIR_PUBLICO = join(
+  process.cwd(),
+  'public',
+  'uploads',
+  'comprobantes',
+);
+
+const TIPOS_IMAGEN: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
 
 @Injectable()
-export class PedidosService {
-  constructor(@InjectModel(Pedido.name) private pedidoModel: Model<PedidoDocument>) {}
+export class PedidosService implements OnModuleInit {
+  private readonly logger = new Logger(PedidosService.name);
+
+  constructor(
+    @InjectModel(Pedido.name) private pedidoModel: Model<PedidoDocument>,
+    @InjectModel(Contador.name) private contadorModel: Model<ContadorDocument>,
+    @Inject(forwardRef(() => WhatsappService))
+    private readonly whatsappService: WhatsappService,
+    private readonly empresasService: EmpresasService,
+    private readonly cuponesService: CuponesService,
+  ) {}
+
+  async onModuleInit() {
+    await this.moverComprobantesPublicos();
+  }
 
   async create(createPedidoDto: CreatePedidoDto): Promise<PedidoDocument> {
-    const createdPedido = new this.pedidoModel(createPedidoDto);
+    const items = createPedidoDto.items.map(item => ({
+      ...item,
+      subtotal: item.subtotal ?? item.cantidad * item.precioUnitario,
+    }));
+    const createdPedido = new this.pedidoModel({
+      ...createPedidoDto,
+      codigo: await this.generarCodigo(createPedidoDto.empresaId),
+      items,
+      estadoPedido: EstadoPedido.PENDIENTE,
+      historialEstados: [{ estado: EstadoPedido.PENDIENTE, fecha: new Date() }],
+    });
     return createdPedido.save();
   }
-}
 
+  /**
+   * Registra un pedido reservando antes el stock de todas sus líneas. Si alguna línea
+   * no tiene existencias no se crea nada (StockInsuficienteException) y si falla el
+   * guardado del pedido se devuelve el stock reservado. El uso del cupón, si lo hay,
+   * se registra primero y se libera igual que el stock.
+   */
+  async checkout(createPedidoDto: CreatePedidoDto): Promise<PedidoDocument> {
+    const { empresaId, items, cupon } = createPedidoDto;
+    if (cupon) {
+      await this.cuponesService.registrarUso(empresaId, cupon.codigo);
+    }
+
+    try {
+      await this.empresasService.reserveStock(empresaId, items);
+    } catch (error) {
+      if (cupon) await this.cuponesService.liberarUso(empresaId, cupon.codigo);
+      throw error;
+    }
+
+    try {
+      return await this.create(createPedidoDto);
+    } catch (error) {
+      this.logger.error(
+        `Failed to save pedido for empresa ${empresaId}, releasing reserved stock: ${error.message}`,
+      );
+      await this.empresasService.releaseStock(empresaId, items);
+      if (cupon) await this.cuponesService.liberarUso(empresaId, cupon.codigo);
+      throw error;
+    }
+  }
+
+  async findAllByEmpresa(empresaId: string, query: FindPedidosQueryDto) {
+    const filter: FilterQuery<PedidoDocument> = { empresaId };
+
+    if (query.estadoPedido) {
+      filter.estadoPedido = query.estadoPedido;
+    }
+    if (query.estadoPago) {
+      filter.estadoPago = query.estadoPago;
+    }
+    if (query.clienteId) {
+      filter.clienteId = query.clienteId;
+    }
+    if (query.codigo) {
+      filter.codigo = query.codigo.trim().toUpperCase();
+    }
+    if (query.desde || query.hasta) {
+      filter.fecha = {};
+      if (query.desde) filter.fecha.$gte = new Date(query.desde);
+      if (query.hasta) filter.fecha.$lte = new Date(query.hasta);
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const sortParam = query.sort || '-fecha';
+    const sortField = sortParam.replace(/^-/, '');
+    const sortOrder: SortOrder = sortParam.startsWith('-') ? -1 : 1;
+
+    const [data, total] = await Promise.all([
+      this.pedidoModel
+        .find(filter)
+        .sort({ [sortField]: sortOrder, _id: sortOrder })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('clienteId')
+        .exec(),
+      this.pedidoModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findRecentByCliente(
+    clienteId: string,
+    empresaId: string,
+    limit = 5,
+  ): Promise<PedidoDocument[]> {
+    return this.pedidoModel
+      .find({ clienteId, empresaId })
+      .sort({ fecha: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async findOne(id: string): Promise<PedidoDocument> {
+    const pedido = await this.pedidoModel
+      .findById(id)
+      .populate('empresaId')
+      .populate('clienteId')
+      .exec();
+    if (!pedido) {
+      throw new NotFoundException(`Pedido con ID "${id}" no encontrado.`);
+    }
+    return pedido;
+  }
+
+  async findOneByCodigo(codigo: string): Promise<PedidoDocument> {
+    const pedido = await this.pedidoModel
+      .findOne({ codigo: codigo.trim().toUpperCase() })
+      .populate('empresaId')
+      .populate('clienteId')
+      .exec();
+    if (!pedido) {
+      throw new NotFoundException(
+        `Pedido con código "${codigo}" no encontrado.`,
+      );
+    }
+    return pedido;
+  }
+
+  async update(
+    id: string,
+    updatePedidoDto: UpdatePedidoDto,
+  ): Promise<PedidoDocument> {
+    const updatedPedido = await this.pedidoModel
+      .findByIdAndUpdate(id, updatePedidoDto, {
+        new: true,
+        runValidators: true,
+      })
+      .populate('empresaId')
+      .populate('clienteId')
+      .exec();
+    if (!updatedPedido) {
+      throw new NotFoundException(
+        `Pedido con ID "${id}" no encontrado para actualizar.`,
+      );
+    }
+    return updatedPedido;
+  }
+
+  /**
+   * Cambia el estado de un pedido validando que la transición esté permitida,
+   * registra el cambio en el historial y notifica al cliente por WhatsApp.
+   */
+  async cambiarEstado(
+    id: string,
+    estado: EstadoPedido,
+    nota?: string,
+  ): Promise<PedidoDocument> {
+    const pedido = await this.findOne(id);
+    await this.aplicarTransicion(pedido, estado, nota);
+    await this.notifyEstadoCliente(pedido, nota);
+    return pedido;
+  }
+
+  /**
+   * Cancela un pedido, devuelve su stock y avisa a la otra parte: al cliente si
+   * cancela la empresa, y a la empresa si cancela el cliente.
+   */
+  async cancelar(
+    id: string,
+    motivo: string,
+    canceladoPor: 'cliente' | 'empresa',
+  ): Promise<PedidoDocument> {
+    const pedido = await this.findOne(id);
+    await this.aplicarTransicion(pedido, EstadoPedido.CANCELADO, motivo, {
+      motivoCancelacion: motivo,
+      canceladoPor,
+    });
+
+    if (canceladoPor === 'empresa') {
+      await this.notifyEstadoCliente(pedido, motivo);
+    } else {
+      await this.notifyCancelacionEmpresa(pedido);
+    }
+    return pedido;
+  }
+
+  /**
+   * Cancela el pedido más reciente del cliente (opcionalmente en una empresa), siempre que
+   * siga en un estado cancelable y esté dentro de la ventana configurada por la empresa.
+   */
+  async cancelarUltimoPorCliente(
+    clienteId: string,
+    motivo: string,
+    empresaId?: string,
+  ): Promise<PedidoDocument> {
+    const cancelables = Object.values(EstadoPedido).filter(estado =>
+      TRANSICIONES_ESTADO_PEDIDO[estado].includes(EstadoPedido.CANCELADO),
+    );
+    const filter: FilterQuery<PedidoDocument> = {
+      clienteId,
+      estadoPedido: { $in: cancelables },
+    };
+    if (empresaId) {
+      filter.empresaId = empresaId;
+    }
+    const pedido = await this.pedidoModel
+      .findOne(filter)
+      .sort({ fecha: -1 })
+      .exec();
+
+    if (!pedido) {
+      throw new NotFoundException('No tienes pedidos que se puedan cancelar.');
+    }
+
+    const empresa = await this.empresasService.findOne(
+      pedido.empresaId.toString(),
+    );
+    const minutos = empresa.minutosCancelacionCliente ?? 0;
+    const limite = new Date(pedido.fecha.getTime() + minutos * 60000);
+    if (minutos <= 0 || limite < new Date()) {
+      throw new BadRequestException(
+        'El tiempo para cancelar tu pedido ya pasó. Por favor, comunícate con la tienda.',
+      );
+    }
+
+    return this.cancelar(pedido._id.toString(), motivo, 'cliente');
+  }
+
+  // Último pedido del cliente en la empresa pagado por transferencia o billetera
+  // que sigue esperando comprobante
+  async findPendienteComprobante(
+    empresaId: string,
+    clienteId: string,
+  ): Promise<PedidoDocument | null> {
+    return this.pedidoModel
+      .findOne({
+        empresaId,
+        clienteId,
+        'metodoPago.tipo': {
+          $in: [TipoMetodoPago.TRANSFERENCIA, TipoMetodoPago.BILLETERA],
+        },
+        estadoPago: { $in: [EstadoPago.PENDIENTE, EstadoPago.RECHAZADO] },
+        estadoPedido: {
+          $nin: [EstadoPedido.CANCELADO, EstadoPedido.RECHAZADO],
+        },
+      })
+      .sort({ fecha: -1 })
+      .exec();
+  }
+
+  /**
+   * Guarda la imagen del comprobante en uploads/comprobantes (fuera de public/), la
+   * adjunta al pedido y se la reenvía a la empresa para que verifique el pago.
+   */
+  async adjuntarComprobante(
+    id: string,
+    imagen: Buffer,
+    mimetype: string,
+  ): Promise<PedidoDocument> {
+    const pedido = await this.findOne(id);
+
+    const extension = mimetype.split('/')[1]?.split(';')[0] || 'jpg';
+    const filename = `${pedido.codigo || pedido._id}-${Date.now()}.${extension}`;
+    await fs.mkdir(COMPROBANTES_DIR, { recursive: true });
+    await fs.writeFile(join(COMPROBANTES_DIR, filename), imagen);
+
+    pedido.comprobantesPago.push(filename);
+    pedido.estadoPago = EstadoPago.COMPROBANTE_RECIBIDO;
+    await pedido.save();
+
+    await this.notifyComprobanteEmpresa(pedido, imagen);
+    return pedido;
+  }
+
+  // Comprobante número `n` (desde 1) del pedido, en el orden en que los envió el cliente
+  async obtenerComprobante(
+    id: string,
+    n: number,
+  ): Promise<{ contenido: Buffer; tipo: string }> {
+    const pedido = await this.findOne(id);
+    const ruta = pedido.comprobantesPago[n - 1];
+    if (!ruta) {
+      throw new NotFoundException(`El pedido no tiene el comprobante ${n}.`);
+    }
+
+    // Los pedidos anteriores guardaban la ruta pública completa; solo importa el nombre
+    const filename = basename(ruta);
+    try {
+      const contenido = await fs.readFile(join(COMPROBANTES_DIR, filename));
+      return {
+        contenido,
+        tipo:
+          TIPOS_IMAGEN[extname(filename).toLowerCase()] ||
+          'application/octet-stream',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Payment proof file ${filename} of pedido ${id} could not be read: ${error.message}`,
+      );
+      throw new NotFoundException(
+        `El archivo del comprobante ${n} no está disponible.`,
+      );
+    }
+  }
+
+  async cambiarEstadoPago(
+    id: string,
+    estadoPago: EstadoPago,
+    nota?: string,
+  ): Promise<PedidoDocument> {
+    const pedido = await this.findOne(id);
+    if (pedido.estadoPago === EstadoPago.VERIFICADO) {
+      throw new BadRequestException(
+        'El pago de este pedido ya fue verificado.',
+      );
+    }
+
+    pedido.estadoPago = estadoPago;
+    await pedido.save();
+    await this.notifyEstadoPagoCliente(pedido, nota);
+    return pedido;
+  }
+
+  // Guarda el aviso de un pedido programado para enviárselo a la empresa cuando abra
+  async programarNotificacionEmpresa(
+    id: string,
+    mensaje: string,
+  ): Promise<void> {
+    await this.pedidoModel
+      .updateOne(
+        { _id: id },
+        { $set: { notificacionEmpresaPendiente: mensaje } },
+      )
+      .exec();
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'notify_scheduled_orders' })
+  async handleNotificacionesProgramadas() {
+    // Solo se reclaman los pedidos cuyo bot está conectado; el resto espera a la próxima ejecución
+    const sesionesActivas = this.whatsappService.getActiveSessionIds();
+    if (sesionesActivas.length === 0) return;
+
+    const filter: FilterQuery<PedidoDocument> = {
+      sessionId: { $in: sesionesActivas },
+      programadoPara: { $lte: new Date() },
+      notificacionEmpresaPendiente: { $exists: true },
+      estadoPedido: { $nin: [EstadoPedido.CANCELADO, EstadoPedido.RECHAZADO] },
+    };
+
+    // Se reclama un pedido a la vez quitando el aviso, para no enviarlo dos veces
+    let pedido: PedidoDocument | null;
+    while (
+      (pedido = await this.pedidoModel
+        .findOneAndUpdate(filter, {
+          $unset: { notificacionEmpresaPendiente: 1 },
+        })
+        .select('+notificacionEmpresaPendiente')
+        .populate('empresaId')
+        .exec())
+    ) {
+      const empresa = pedido.empresaId as EmpresaDocument;
+      if (!empresa?.whatsApp) {
+        this.logger.warn(
+          `Scheduled pedido ${pedido._id} has no company WhatsApp; dropping notification.`,
+        );
+        continue;
+      }
+      try {
+        // La sesión pudo desconectarse después de reclamar el pedido
+        if (
+          !this.whatsappService
+            .getActiveSessionIds()
+            .includes(pedido.sessionId!)
+        ) {
+          throw new Error(`bot session ${pedido.sessionId} is not active`);
+        }
+        const companyJid = `${empresa.codigoPais}${empresa.whatsApp}@s.whatsapp.net`;
+        await this.whatsappService.sendMessage(
+          pedido.sessionId,
+          companyJid,
+          pedido.notificacionEmpresaPendiente!,
+        );
+        this.logger.log(
+          `Scheduled order notification for pedido ${pedido.codigo} sent to company ${empresa.nombre}.`,
+        );
+      } catch (error) {
+        // Se devuelve el aviso y se reintenta en la próxima ejecución
+        this.logger.error(
+          `Failed to send scheduled notification of pedido ${pedido._id} to company ${empresa.nombre}: ${error.message}`,
+        );
+        await this.programarNotificacionEmpresa(
+          pedido._id.toString(),
+          pedido.notificacionEmpresaPendiente!,
+        );
+        break;
+      }
+    }
+  }
+
+  // Saca de public/ los comprobantes guardados antes de protegerlos; es idempotente
+  private async moverComprobantesPublicos() {
+    let archivos: string[];
+    try {
+      archivos = await fs.readdir(COMPROBANTES_DIR_PUBLICO);
+    } catch (error) {
+      return;
+    }
+    if (archivos.length === 0) return;
+
+    await fs.mkdir(COMPROBANTES_DIR, { recursive: true });
+    for (const archivo of archivos) {
+      try {
+        await fs.rename(
+          join(COMPROBANTES_DIR_PUBLICO, archivo),
+          join(COMPROBANTES_DIR, archivo),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Could not move payment proof ${archivo} out of public/: ${error.message}`,
+        );
+      }
+    }
+    this.logger.log(`Moved ${archivos.length} payment proofs out of public/.`);
+  }
+
+  // Genera el siguiente código de la empresa a partir de un contador atómico
+  private async generarCodigo(empresaId: string): Promise<string> {
+    const empresa = await this.empresasService.findOne(empresaId);
+    const contador = await this.contadorModel
+      .findOneAndUpdate(
+        { clave: `pedido:${empresaId}` },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      )
+      .exec();
+    return `${empresa.code.toUpperCase()}-${String(contador.seq).padStart(6, '0')}`;
+  }
+
+  /**
+   * Cambia el estado solo si sigue siendo el que se leyó, junto con `cambios`, en una sola
+   * operación: dos cambios simultáneos (ej: la empresa y el cliente cancelando a la vez) no
+   * pueden aplicarse ambos ni devolver dos veces el stock y el uso del cupón.
+   */
+  private async aplicarTransicion(
+    pedido: PedidoDocument,
+    estado: EstadoPedido,
+    nota?: string,
+    cambios: Partial<Pedido> = {},
+  ) {
+    const estadoActual = pedido.estadoPedido;
+    const permitidos = TRANSICIONES_ESTADO_PEDIDO[estadoActual] || [];
+
+    if (!permitidos.includes(estado)) {
+      throw new BadRequestException(
+        `No se puede cambiar el pedido de "${estadoActual}" a "${estado}". Estados permitidos: ${permitidos.join(', ') || 'ninguno'}.`,
+      );
+    }
+
+    const entrada = { estado, fecha: new Date(), nota };
+    const actualizado = await this.pedidoModel
+      .findOneAndUpdate(
+        { _id: pedido._id, estadoPedido: estadoActual },
+        {
+          $set: { ...cambios, estadoPedido: estado },
+          $push: { historialEstados: entrada },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!actualizado) {
+      throw new ConflictException(
+        'El pedido cambió de estado mientras se procesaba. Consulta su estado actual e intenta de nuevo.',
+      );
+    }
+
+    // El documento cargado (con empresa y cliente poblados) se usa después para notificar
+    Object.assign(pedido, cambios, { estadoPedido: estado });
+    pedido.historialEstados.push(entrada);
+
+    // Un pedido que no se va a entregar devuelve sus unidades al inventario y el uso del cupón
+    if (
+      estado === EstadoPedido.CANCELADO ||
+      estado === EstadoPedido.RECHAZADO
+    ) {
+      const empresa = pedido.empresaId as EmpresaDocument;
+      await this.empresasService.releaseStock(
+        empresa._id.toString(),
+        pedido.items,
+      );
+      if (pedido.cupon) {
+        await this.cuponesService.liberarUso(
+          empresa._id.toString(),
+          pedido.cupon.codigo,
+        );
+      }
+    }
+  }
+
+  private async notifyEstadoCliente(pedido: PedidoDocument, nota?: string) {
+    const cliente = pedido.clienteId as ClienteDocument;
+    const empresa = pedido.empresaId as EmpresaDocument;
+
+    if (!pedido.sessionId || !cliente?.whatsApp) {
+      this.logger.warn(
+        `Pedido ${pedido._id} has no bot session or customer WhatsApp; skipping status notification.`,
+      );
+      return;
+    }
+
+    try {
+      const message = buildEstadoPedidoMessage(
+        pedido,
+        empresa?.nombre || 'la tienda',
+        nota,
+      );
+      await this.whatsappService.sendMessage(
+        pedido.sessionId,
+        cliente.whatsApp,
+        message,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify status change of pedido ${pedido._id} to ${cliente.whatsApp}: ${error.message}`,
+      );
+    }
+  }
+
+  private async notifyCancelacionEmpresa(pedido: PedidoDocument) {
+    const cliente = pedido.clienteId as ClienteDocument;
+    const empresa = pedido.empresaId as EmpresaDocument;
+
+    if (!pedido.sessionId || !empresa?.whatsApp) {
+      this.logger.warn(
+        `Pedido ${pedido._id} has no bot session or company WhatsApp; skipping cancellation notification.`,
+      );
+      return;
+    }
+
+    try {
+      const companyJid = `${empresa.codigoPais}${empresa.whatsApp}@s.whatsapp.net`;
+      const customerName =
+        cliente?.nombre ||
+        cliente?.whatsApp?.replace('@s.whatsapp.net', '') ||
+        'Cliente';
+      const message = buildCancelacionEmpresaMessage(customerName, pedido);
+      await this.whatsappService.sendMessage(
+        pedido.sessionId,
+        companyJid,
+        message,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify cancellation of pedido ${pedido._id} to company ${empresa.nombre}: ${error.message}`,
+      );
+    }
+  }
+
+  private async notifyEstadoPagoCliente(pedido: PedidoDocument, nota?: string) {
+    const cliente = pedido.clienteId as ClienteDocument;
+    const empresa = pedido.empresaId as EmpresaDocument;
+
+    if (!pedido.sessionId || !cliente?.whatsApp) {
+      this.logger.warn(
+        `Pedido ${pedido._id} has no bot session or customer WhatsApp; skipping payment notification.`,
+      );
+      return;
+    }
+
+    try {
+      const message = buildEstadoPagoMessage(
+        pedido,
+        empresa?.nombre || 'la tienda',
+        nota,
+      );
+      await this.whatsappService.sendMessage(
+        pedido.sessionId,
+        cliente.whatsApp,
+        message,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify payment status of pedido ${pedido._id} to ${cliente.whatsApp}: ${error.message}`,
+      );
+    }
+  }
+
+  private async notifyComprobanteEmpresa(
+    pedido: PedidoDocument,
+    imagen: Buffer,
+  ) {
+    const cliente = pedido.clienteId as ClienteDocument;
+    const empresa = pedido.empresaId as EmpresaDocument;
+
+    if (!pedido.sessionId || !empresa?.whatsApp) {
+      this.logger.warn(
+        `Pedido ${pedido._id} has no bot session or company WhatsApp; skipping payment proof forwarding.`,
+      );
+      return;
+    }
+
+    try {
+      const companyJid = `${empresa.codigoPais}${empresa.whatsApp}@s.whatsapp.net`;
+      const customerName =
+        cliente?.nombre ||
+        cliente?.whatsApp?.replace('@s.whatsapp.net', '') ||
+        'Cliente';
+      await this.whatsappService.sendImage(
+        pedido.sessionId,
+        companyJid,
+        imagen,
+        buildComprobanteEmpresaCaption(customerName, pedido, {
+          ...getFormatoMoneda(empresa),
+          moneda: pedido.moneda,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to forward payment proof of pedido ${pedido._id} to company ${empresa.nombre}: ${error.message}`,
+      );
+    }
+  }
+}
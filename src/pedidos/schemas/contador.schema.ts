@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ContadorDocument = Contador & Document;
+
+// Secuencias atómicas, una por clave (ej: "pedido:<empresaId>")
+@Schema()
+export class Contador {
+  @Prop({ required: true, unique: true })
+  clave: string;
+
+  @Prop({ required: true, default: 0 })
+  seq: number;
+}
+
+export const ContadorSchema = SchemaFactory.createForClass(Contador);
@@ -1,21 +1,114 @@
-
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { Empresa } from '../../empresas/schemas/empresa.schema';
 import { Cliente } from '../../clientes/schemas/cliente.schema';
+import { EstadoPedido } from '../enums/estado-pedido.enum';
+import { EstadoPago } from '../enums/estado-pago.enum';
+import { TipoMetodoPago } from '../../empresas/enums/tipo-metodo-pago.enum';
 
 export type PedidoDocument = Pedido & Document;
 
-class PedidoItem {
+// Copia de la línea del carrito al momento de la compra, para que el pedido
+// pueda reconstruirse aunque el producto cambie de precio o se elimine
+@Schema({ _id: false })
+export class PedidoItem {
   @Prop({ required: true })
   sku: string;
 
   @Prop({ required: true })
   cantidad: number;
+
+  @Prop({ required: true })
+  nombre: string;
+
+  @Prop()
+  presentacion?: string;
+
+  @Prop({ required: true })
+  precioUnitario: number;
+
+  @Prop({ required: true })
+  subtotal: number;
+}
+const PedidoItemSchema = SchemaFactory.createForClass(PedidoItem);
+
+@Schema({ _id: false })
+export class HistorialEstado {
+  @Prop({ required: true, type: String, enum: Object.values(EstadoPedido) })
+  estado: EstadoPedido;
+
+  @Prop({ default: Date.now })
+  fecha: Date;
+
+  @Prop()
+  nota?: string;
+}
+const HistorialEstadoSchema = SchemaFactory.createForClass(HistorialEstado);
+
+// Copia de la dirección usada en el pedido; el cliente puede editarla después
+@Schema({ _id: false })
+export class DireccionEntrega {
+  @Prop()
+  etiqueta?: string;
+
+  @Prop({ required: true })
+  direccion: string;
+
+  @Prop()
+  referencias?: string;
+
+  @Prop({ type: [Number] })
+  coordenadas?: number[]; // [longitud, latitud]
 }
+const DireccionEntregaSchema = SchemaFactory.createForClass(DireccionEntrega);
+
+@Schema({ _id: false })
+export class ImpuestoPedido {
+  @Prop({ required: true })
+  nombre: string;
+
+  @Prop({ required: true })
+  tasa: number;
+
+  @Prop({ required: true })
+  base: number;
+
+  @Prop({ required: true })
+  monto: number;
+
+  // Si el impuesto ya estaba dentro de los precios o se sumó al total
+  @Prop({ required: true })
+  incluido: boolean;
+}
+const ImpuestoPedidoSchema = SchemaFactory.createForClass(ImpuestoPedido);
+
+@Schema({ _id: false })
+export class MetodoPagoPedido {
+  @Prop({ required: true, type: String, enum: Object.values(TipoMetodoPago) })
+  tipo: TipoMetodoPago;
+
+  @Prop({ required: true })
+  nombre: string;
+}
+const MetodoPagoPedidoSchema = SchemaFactory.createForClass(MetodoPagoPedido);
+
+// Cupón aplicado y el descuento que generó sobre el subtotal
+@Schema({ _id: false })
+export class CuponPedido {
+  @Prop({ required: true })
+  codigo: string;
+
+  @Prop({ required: true })
+  descuento: number;
+}
+const CuponPedidoSchema = SchemaFactory.createForClass(CuponPedido);
 
 @Schema()
 export class Pedido {
+  // Código legible y secuencial por empresa (ej: PAN-000123)
+  @Prop()
+  codigo: string;
+
   @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Empresa', required: true })
   empresaId: Empresa;
 
@@ -25,14 +118,85 @@ export class Pedido {
   @Prop({ default: Date.now })
   fecha: Date;
 
-  @Prop([PedidoItem])
+  @Prop({ type: [PedidoItemSchema] })
   items: PedidoItem[];
 
+  // Total a pagar, incluidos el costo de envío y los impuestos
   @Prop({ required: true })
   totalPrecio: number;
 
-  @Prop({ required: true, enum: ['pendiente', 'cerrado'], default: 'pendiente' })
-  estadoPedido: string;
+  @Prop({ type: ImpuestoPedidoSchema })
+  impuesto?: ImpuestoPedido;
+
+  @Prop({ type: CuponPedidoSchema })
+  cupon?: CuponPedido;
+
+  @Prop({ type: Number, default: 0 })
+  costoEnvio: number;
+
+  @Prop({ type: Number })
+  distanciaKm?: number;
+
+  @Prop({ type: DireccionEntregaSchema })
+  direccionEntrega?: DireccionEntrega;
+
+  // Próximo día de entrega de la empresa al momento del pedido
+  @Prop()
+  fechaEntrega?: Date;
+
+  // Pedido recibido con la tienda cerrada: se atiende desde su próxima apertura
+  @Prop()
+  programadoPara?: Date;
+
+  // Notas internas de la empresa sobre el pedido
+  @Prop()
+  notas?: string;
+
+  // Aviso a la empresa que espera a `programadoPara` para enviarse
+  @Prop({ select: false })
+  notificacionEmpresaPendiente?: string;
+
+  @Prop({ required: true })
+  moneda: string;
+
+  @Prop({ type: MetodoPagoPedidoSchema })
+  metodoPago?: MetodoPagoPedido;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: Object.values(EstadoPago),
+    default: EstadoPago.PENDIENTE,
+  })
+  estadoPago: EstadoPago;
+
+  // Archivos (en uploads/comprobantes) de las imágenes de comprobante enviadas por el cliente
+  @Prop({ type: [String], default: [] })
+  comprobantesPago: string[];
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: Object.values(EstadoPedido),
+    default: EstadoPedido.PENDIENTE,
+  })
+  estadoPedido: EstadoPedido;
+
+  @Prop({ type: [HistorialEstadoSchema], default: [] })
+  historialEstados: HistorialEstado[];
+
+  @Prop()
+  sessionId?: string;
+
+  @Prop()
+  motivoCancelacion?: string;
+
+  @Prop({ type: String, enum: ['cliente', 'empresa'] })
+  canceladoPor?: 'cliente' | 'empresa';
 }
 
 export const PedidoSchema = SchemaFactory.createForClass(Pedido);
+PedidoSchema.index({ empresaId: 1, fecha: -1 });
+PedidoSchema.index({ codigo: 1 }, { unique: true, sparse: true });
+PedidoSchema.index({ empresaId: 1, 'cupon.codigo': 1, clienteId: 1 });
+PedidoSchema.index({ programadoPara: 1 }, { sparse: true });
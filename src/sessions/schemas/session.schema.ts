@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { FormatoMoneda } from '../../empresas/utils/moneda.util';
+import { PresentacionProducto } from '../../empresas/schemas/producto.schema';
 
 export type UserSessionDocument = UserSession & Document;
 
@@ -39,7 +41,7 @@ class PendingProduct {
   existencia: number;
 
   @Prop({ type: Object })
-  presentacion?: Map<string, { precioventa: number; existencia: number }>;
+  presentacion?: Map<string, PresentacionProducto>;
 }
 const PendingProductSchema = SchemaFactory.createForClass(PendingProduct);
 
@@ -50,7 +52,7 @@ export class UserSession {
   userJid: string;
 
   @Prop({ type: Object })
-  company?: { code: string; id: string; name: string };
+  company?: { code: string; id: string; name: string; formato?: FormatoMoneda };
 
   @Prop({ type: [CartItemSchema], default: [] })
   cart: CartItem[];
@@ -78,6 +80,30 @@ export class UserSession {
 
   @Prop({ type: PendingProductSchema })
   pendingProduct?: PendingProduct;
+
+  // IDs de los pedidos listados con el comando de historial, en el orden mostrado
+  @Prop([String])
+  recentOrders?: string[];
+
+  // Índice en `cliente.direcciones` de la dirección elegida para el pedido en curso
+  @Prop()
+  selectedAddress?: number;
+
+  // Forma de pago elegida para el pedido en curso
+  @Prop({ type: Object })
+  paymentMethod?: { tipo: string; nombre: string };
+
+  // Cupón aplicado desde el carrito; se vuelve a validar en cada cotización
+  @Prop({ type: Object })
+  coupon?: { codigo: string };
+
+  // Listado de productos en pantalla (una categoría o todo el catálogo) y su página actual
+  @Prop({ type: Object })
+  listado?: { categoria?: string; pagina: number };
+
+  // SKUs de la última lista numerada de productos (página del listado o búsqueda), en orden
+  @Prop([String])
+  numberedProducts?: string[];
 }
 
 
@@ -2,9 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { EventEmitter } from 'events';
 import makeWASocket, {
   DisconnectReason,
+  downloadMediaMessage,
   useMultiFileAuthState,
   WAMessage,
 } from '@whiskeysockets/baileys';
+import { ILogger } from '@whiskeysockets/baileys/lib/Utils/logger';
 import { Boom } from '@hapi/boom';
 import { Button, IWhatsAppProvider } from './whatsapp-provider.interface';
 import * as pino from 'pino';
@@ -14,6 +16,7 @@ export class BaileysProvider implements IWhatsAppProvider {
   events = new EventEmitter();
   private sock: any;
   private logger = new Logger(BaileysProvider.name);
+  private readonly mediaLogger: ILogger = pino({ level: 'silent' });
 
   async initialize(sessionId: string): Promise<void> {
     const { state, saveCreds } = await useMultiFileAuthState(`auth_info_baileys/${sessionId}`);
@@ -72,6 +75,22 @@ export class BaileysProvider implements IWhatsAppProvider {
     await this.sock.sendMessage(to, buttonMessage);
   }
 
+  async sendImage(to: string, image: Buffer, caption?: string): Promise<void> {
+    await this.sock.sendMessage(to, { image, caption });
+  }
+
+  async downloadMedia(message: WAMessage): Promise<Buffer> {
+    return downloadMediaMessage(
+      message,
+      'buffer',
+      {},
+      {
+        logger: this.mediaLogger,
+        reuploadRequest: this.sock.updateMediaMessage,
+      },
+    ) as Promise<Buffer>;
+  }
+
   async disconnect(): Promise<void> {
     if (this.sock) {
       await this.sock.logout();
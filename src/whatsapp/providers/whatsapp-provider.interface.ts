@@ -1,9 +1,23 @@
 import { EventEmitter } from 'events';
 
+// Ubicación compartida por el usuario (pin de WhatsApp)
+export interface GenericLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// Imagen recibida; el contenido se descarga bajo demanda con downloadMedia
+export interface GenericImage {
+  mimetype: string;
+  caption?: string;
+}
+
 // Definición del mensaje genérico para desacoplar el servicio de la librería
 export interface GenericMessage {
   from: string;
   text: string;
+  location?: GenericLocation;
+  image?: GenericImage;
   isFromMe: boolean;
   originalMessage: unknown; // Para mantener el mensaje original por si se necesita
   sessionId: string; // ID de la sesión del bot que recibió el mensaje
@@ -19,6 +33,8 @@ export interface IWhatsAppProvider {
   initialize(sessionId: string): Promise<void>;
   sendMessage(to: string, message: string): Promise<void>;
   sendButtonsMessage(to: string, text: string, footer: string, buttons: Button[]): Promise<void>;
+  sendImage(to: string, image: Buffer, caption?: string): Promise<void>;
+  downloadMedia(message: unknown): Promise<Buffer>;
   disconnect(): Promise<void>;
 }
 
@@ -109,9 +109,25 @@ export class WhatsappService implements OnModuleInit {
       session.events.on('message', (message: WAMessage) => {
         if (message.key.fromMe) return;
 
+        const locationMessage =
+          message.message?.locationMessage ||
+          message.message?.liveLocationMessage;
+        const imageMessage = message.message?.imageMessage;
         const genericMessage: GenericMessage = {
           from: message.key.remoteJid!,
           text: message.message?.conversation || message.message?.extendedTextMessage?.text || '',
+          location: locationMessage
+            ? {
+                latitude: locationMessage.degreesLatitude,
+                longitude: locationMessage.degreesLongitude,
+              }
+            : undefined,
+          image: imageMessage
+            ? {
+                mimetype: imageMessage.mimetype || 'image/jpeg',
+                caption: imageMessage.caption || undefined,
+              }
+            : undefined,
           isFromMe: message.key.fromMe || false,
           originalMessage: message,
           sessionId: bot.sessionId,
@@ -141,6 +157,10 @@ export class WhatsappService implements OnModuleInit {
     }
   }
 
+  getActiveSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
   async sendMessage(sessionId: string, to: string, message: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (session) {
@@ -158,5 +178,34 @@ export class WhatsappService implements OnModuleInit {
       this.logger.warn(`Attempted to send buttons via non-existent session: ${sessionId}`);
     }
   }
-}
 
+  async sendImage(
+    sessionId: string,
+    to: string,
+    image: Buffer,
+    caption?: string,
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      await session.sendImage(to, image, caption);
+    } else {
+      this.logger.warn(
+        `Attempted to send image via non-existent session: ${sessionId}`,
+      );
+    }
+  }
+
+  async downloadMedia(
+    sessionId: string,
+    message: unknown,
+  ): Promise<Buffer | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.logger.warn(
+        `Attempted to download media via non-existent session: ${sessionId}`,
+      );
+      return null;
+    }
+    return session.downloadMedia(message);
+  }
+}